@@ -1,8 +1,134 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { ethers } from "ethers";
 import "./App.css";
-import QRCodeScanner from "./QRCodeScanner";
+import QRCodeScanner, { TalliedScan } from "./QRCodeScanner";
+import { FORMAT_LABELS, parseQrPayload, PayloadFormat } from "./qrPayload";
+import { playScanFeedback } from "./scanFeedback";
+import SessionLog from "./SessionLog";
+import GroupDashboard from "./GroupDashboard";
+import {
+  TrustRelationRow,
+  createCirclesRpc,
+  and,
+  equals,
+  inList,
+} from "./circlesRpc";
+import OfflineQueuePanel from "./OfflineQueuePanel";
+import ProfileCard, { ProfileLookup } from "./ProfileCard";
+import OrgSettings from "./OrgSettings";
+import SessionProfiles from "./SessionProfiles";
+import {
+  ActiveProfile,
+  ProfileSettingKey,
+  ProfileSettings,
+  SessionProfile,
+  addProfileCopy,
+  loadProfiles,
+  loadStartupProfile,
+  saveActiveProfileId,
+  saveProfiles,
+  upsertProfile,
+} from "./sessionProfiles";
+import InviteTemplateSettings from "./InviteTemplateSettings";
+import KioskSetup from "./KioskSetup";
+import KioskScreen from "./KioskScreen";
+import {
+  KioskConfig,
+  KioskOutcome,
+  exitFullscreen,
+  loadKioskConfig,
+  saveKioskConfig,
+} from "./kiosk";
+import InviteQrOverlay, { SharedInviteLink } from "./InviteQrOverlay";
+import {
+  DEFAULT_TEMPLATE,
+  InviteSession,
+  InviteTemplate,
+  createInviteToken,
+  fillTemplate,
+  loadEventTemplate,
+  loadInviteSession,
+  loadTemplates,
+  saveEventTemplate,
+  saveInviteSession,
+  saveTemplates,
+  withLinkParams,
+} from "./inviteTemplates";
+import {
+  CIRCLES_HUB_ADDRESS,
+  checkInvitation,
+  encodeInvitation,
+} from "./invitations";
+import {
+  OrgConfig,
+  clearOrgSettings,
+  loadOrgConfig,
+  saveOrgSettings,
+} from "./orgConfig";
 import { createSafeClient } from "@safe-global/sdk-starter-kit";
+import {
+  DEFAULT_EXPIRY_SETTING,
+  DurationUnit,
+  ExpiryMode,
+  ExpirySetting,
+  NEVER_EXPIRES,
+  formatTimestamp,
+  loadGroupExpiry,
+  resolveExpiry,
+  saveGroupExpiry,
+} from "./expiry";
+import {
+  LogAction,
+  LogEntry,
+  appendLogEntry,
+  clearLogEntries,
+  loadLogEntries,
+} from "./onboardingLog";
+import {
+  CapturedScan,
+  createCapturedScan,
+  isNetworkError,
+  loadCapturedScans,
+  saveCapturedScans,
+} from "./offlineQueue";
+import {
+  SafeProposal,
+  ServiceTransaction,
+  applyServiceTransaction,
+  hasSigned,
+  readSafeResult,
+} from "./safeProposals";
+import {
+  BatchChunk,
+  DEFAULT_BATCH_SIZE,
+  chunkMembers,
+  dequeueMember,
+  enqueueMembers,
+  loadMemberQueue,
+  saveMemberQueue,
+} from "./memberQueue";
+import {
+  Eip1193Provider,
+  WalletConnector,
+  WalletSession,
+  createWalletConnectors,
+  loadLastConnector,
+  saveLastConnector,
+} from "./walletConnectors";
+import {
+  SimulationResult,
+  formatCost,
+  simulateTransaction,
+} from "./simulation";
+import { OwnershipResult, resolveOwnership } from "./ownership";
+import { GroupTarget, planGroupTargets, summarizeTargets } from "./multiGroup";
+import {
+  CachedGroup,
+  isStale,
+  loadGroupCache,
+  mapWithConcurrency,
+  saveGroupCache,
+} from "./groupCache";
 
 // Define group structure with owner property
 interface Group {
@@ -15,26 +141,63 @@ interface Group {
 // Gnosis Chain configuration
 const GNOSIS_CHAIN_ID = 100;
 const GNOSIS_RPC_URL = "https://rpc.aboutcircles.com";
-const DEFAULT_SAFE_ADDRESS =
-  "0x0aFd8899bca011Bb95611409f09c8EFbf6b169cF".toLowerCase();
 
 // Minimal ABI with just what we need
+// (trustBatchWithConditions with an expiry of now also revokes trust)
 const GROUP_ABI = [
   "function owner() external view returns (address)",
   "function trustBatchWithConditions(address[] memory _coreMembers, uint96 _expiry) external",
 ];
 
-// Safe ABI (minimal for ownership check)
-const SAFE_ABI = [
-  "function isOwner(address owner) public view returns (bool)",
-  "function getThreshold() public view returns (uint256)",
-];
+// Shared client for circles_query and the profiles service
+const circlesRpc = createCirclesRpc(GNOSIS_RPC_URL);
+
+// Injected, WalletConnect and (for test deployments) burner wallets
+const walletConnectors = createWalletConnectors({
+  chainId: GNOSIS_CHAIN_ID,
+  rpcUrl: GNOSIS_RPC_URL,
+});
+
+// Group details fetched in parallel during a background refresh
+const GROUP_FETCH_CONCURRENCY = 4;
+
+// How often pending Safe proposals are refreshed
+const SAFE_PROPOSAL_POLL_MS = 15000;
 
 // Define our operating modes
-type Tab = "invite" | "group";
+type Tab = "invite" | "group" | "log";
 type OwnerMode = "direct" | "safe";
+type InviteMode = "form" | "onchain";
+
+// Membership of the scanned address in the selected group
+type MembershipStatus =
+  | { state: "checking" }
+  | { state: "not-member" }
+  | { state: "member"; since: number; expiry: number }
+  | { state: "unknown"; error: string; networkError: boolean };
+
+// Ownership of the selected group by the connected account
+type OwnershipState = OwnershipResult | { status: "checking" };
+
+// Outcome of a submitted transaction (direct or via Safe)
+interface TxResult {
+  txHash?: string;
+  safeTxHash?: string;
+  error?: string;
+  networkError?: boolean;
+  // Nothing was sent because it had already landed on chain
+  alreadyDone?: boolean;
+}
 
 function App() {
+  // Session profile from a link or the last saved one, applied on start
+  const [profileStartup] = useState(loadStartupProfile);
+  const [sessionProfiles, setSessionProfiles] = useState(loadProfiles);
+  const [activeProfile, setActiveProfile] = useState<ActiveProfile | null>(
+    profileStartup.active,
+  );
+  const startupSettings = profileStartup.active?.profile.settings;
+
   // Basic state
   const [walletAddress, setWalletAddress] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -45,37 +208,129 @@ function App() {
   const [walletConnected, setWalletConnected] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [scannedAddress, setScannedAddress] = useState<string | null>(null);
-  const [contextInput, setContextInput] = useState("");
+  const [scanFormat, setScanFormat] = useState<PayloadFormat | null>(null);
+  // Continuous scanning keeps the camera open and tallies distinct addresses
+  const [continuousScan, setContinuousScan] = useState(
+    startupSettings?.continuousScan ?? false,
+  );
+  const [scanTally, setScanTally] = useState<TalliedScan[]>([]);
+  // Scanned auto-adds run one after another, so quick scans do not open
+  // several wallet prompts or race each other's transactions
+  const autoAddChain = useRef<Promise<void>>(Promise.resolve());
+  const [contextInput, setContextInput] = useState(
+    startupSettings?.context ?? "",
+  );
 
   // Tab and mode states
-  const [activeTab, setActiveTab] = useState<Tab>("invite");
-  const [autoInvite, setAutoInvite] = useState(false);
-  const [autoGroup, setAutoGroup] = useState(false);
+  const [activeTab, setActiveTab] = useState<Tab>(
+    startupSettings?.tab ?? "invite",
+  );
+  const [autoInvite, setAutoInvite] = useState(
+    startupSettings?.autoInvite ?? false,
+  );
+  const [autoGroup, setAutoGroup] = useState(
+    startupSettings?.autoGroup ?? false,
+  );
+
+  // Organization whose trusted groups are listed
+  const [orgState, setOrgState] = useState(loadOrgConfig);
+  const [orgName, setOrgName] = useState<string | null>(null);
+  const orgConfig = orgState.config;
 
   // Group and ownership states
   const [availableGroups, setAvailableGroups] = useState<Group[]>([]);
   const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
   const [loadingGroups, setLoadingGroups] = useState(false);
-  const [ownerMode, setOwnerMode] = useState<OwnerMode>("direct");
+  const [refreshingGroups, setRefreshingGroups] = useState(false);
+  const [showGroupDashboard, setShowGroupDashboard] = useState(false);
+  // Further groups that adds go to alongside the selected group
+  const [extraGroupIds, setExtraGroupIds] = useState<string[]>([]);
+  const [groupTargets, setGroupTargets] = useState<GroupTarget[]>([]);
+  const [ownerMode, setOwnerMode] = useState<OwnerMode>(
+    startupSettings?.ownerMode ?? "direct",
+  );
   const [processingGroup, setProcessingGroup] = useState(false);
   const [processingTally, setProcessingTally] = useState(false);
-  const [safeAddress, setSafeAddress] = useState(DEFAULT_SAFE_ADDRESS);
-  const [isDirectOwner, setIsDirectOwner] = useState(false);
-  const [isSafeOwner, setIsSafeOwner] = useState(false);
-  const [isSafeGroupOwner, setIsSafeGroupOwner] = useState(false);
+  const [safeAddress, setSafeAddress] = useState(
+    startupSettings?.safeAddress || orgState.config.orgAddress,
+  );
+  const [ownership, setOwnership] = useState<OwnershipState | null>(null);
   const [isCorrectNetwork, setIsCorrectNetwork] = useState(false);
   const [safeThreshold, setSafeThreshold] = useState<number>(1);
 
+  // Pending members queue for batch submission
+  const [pendingMembers, setPendingMembers] =
+    useState<string[]>(loadMemberQueue);
+  const [queueScans, setQueueScans] = useState(
+    startupSettings?.queueScans ?? false,
+  );
+  const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+  const [batchChunks, setBatchChunks] = useState<BatchChunk[]>([]);
+  const [processingBatch, setProcessingBatch] = useState(false);
+  const [skippedMembers, setSkippedMembers] = useState<string[]>([]);
+
+  // Trust expiry used for group adds (remembered per group)
+  const [expirySetting, setExpirySetting] = useState<ExpirySetting>(
+    DEFAULT_EXPIRY_SETTING,
+  );
+
+  // Member removal awaiting confirmation, and the action behind txHash
+  const [pendingRemoval, setPendingRemoval] = useState<string | null>(null);
+  const [txAction, setTxAction] = useState<"add" | "remove" | "invite">("add");
+
+  // Invitation via invitation form or on-chain through the Circles v2 Hub
+  const [inviteMode, setInviteMode] = useState<InviteMode>(
+    startupSettings?.inviteMode ?? "form",
+  );
+  const [processingInvite, setProcessingInvite] = useState(false);
+
+  // Invitation form templates, and the session values they are filled with
+  const [inviteTemplates, setInviteTemplates] = useState(loadTemplates);
+  const [inviteSession, setInviteSession] = useState(loadInviteSession);
+  const [inviteTemplateId, setInviteTemplateId] = useState(
+    () => loadEventTemplate(loadInviteSession().event) || DEFAULT_TEMPLATE.id,
+  );
+  const [sharedInvite, setSharedInvite] = useState<SharedInviteLink | null>(
+    null,
+  );
+  const inviteTemplate =
+    inviteTemplates.find((template) => template.id === inviteTemplateId) ||
+    inviteTemplates[0];
+
+  // Self-service kiosk settings, and the result shown to the current person
+  const [kiosk, setKiosk] = useState(loadKioskConfig);
+  const [kioskOutcome, setKioskOutcome] = useState<KioskOutcome | null>(null);
+
+  // Scans captured while offline, and connectivity state
+  const [capturedScans, setCapturedScans] =
+    useState<CapturedScan[]>(loadCapturedScans);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [replayingScans, setReplayingScans] = useState(false);
+
+  // Persistent onboarding log
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
+
+  // Profile of the scanned address
+  const [profileLookup, setProfileLookup] = useState<ProfileLookup | null>(
+    null,
+  );
+
+  // Membership of the scanned address in the selected group
+  const [membership, setMembership] = useState<MembershipStatus | null>(null);
+
+  // Simulated add of the scanned address, shown before sending
+  const [addSimulation, setAddSimulation] = useState<SimulationResult | null>(
+    null,
+  );
+  const [simulatingAdd, setSimulatingAdd] = useState(false);
+
   // Safe client
   const [safeClient, setSafeClient] = useState<any>(null);
-  const [walletEip1193Provider, setWalletEip1193Provider] = useState<any>(null);
-
-  // Set the EIP-1193 provider when window.ethereum is available
-  useEffect(() => {
-    if (window.ethereum) {
-      setWalletEip1193Provider(window.ethereum);
-    }
-  }, []);
+  const [safeProposals, setSafeProposals] = useState<SafeProposal[]>([]);
+  const [connectedAccount, setConnectedAccount] = useState<string | null>(null);
+  const [walletSession, setWalletSession] = useState<WalletSession | null>(
+    null,
+  );
 
   // Initialize RPC provider regardless of wallet connection
   useEffect(() => {
@@ -90,80 +345,164 @@ function App() {
     fetchGroupsData(provider);
   }, []);
 
-  // Function to fetch trusted groups from the RPC
-  const fetchTrustedGroups = async (trusterAddress: string) => {
-    const rpcEndpoint = GNOSIS_RPC_URL;
-    const requestBody = {
-      jsonrpc: "2.0",
-      id: 1,
-      method: "circles_query",
-      params: [
-        {
-          Namespace: "V_CrcV2",
-          Table: "TrustRelations",
-          Columns: [],
-          Filter: [
-            {
-              Type: "FilterPredicate",
-              FilterType: "Equals",
-              Column: "truster",
-              Value: trusterAddress,
-            },
-          ],
-        },
-      ],
+  // Track connectivity so scans can be captured and replayed later
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
     };
+  }, []);
 
-    try {
-      const response = await fetch(rpcEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-      });
+  // Persist captured scans so they survive a reload
+  useEffect(() => {
+    saveCapturedScans(capturedScans);
+  }, [capturedScans]);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  // Persist the member queue, which holds the kiosk's scans awaiting approval
+  useEffect(() => {
+    saveMemberQueue(pendingMembers);
+  }, [pendingMembers]);
 
-      const data = await response.json();
-      if (data.error) {
-        throw new Error(`RPC error: ${data.error.message}`);
-      }
+  // Load the persisted onboarding log
+  useEffect(() => {
+    loadLogEntries()
+      .then(setLogEntries)
+      .catch((error) => console.error("Error loading session log:", error));
+  }, []);
+
+  // The selected group first, then any extra groups still in the list
+  const targetGroups = selectedGroup
+    ? [
+        selectedGroup,
+        ...availableGroups.filter(
+          (group) =>
+            group.id !== selectedGroup.id && extraGroupIds.includes(group.id),
+        ),
+      ]
+    : [];
+
+  // Settings the active session profile locks for volunteers
+  const isLocked = (key: ProfileSettingKey) =>
+    !!activeProfile?.profile.locked.includes(key);
+
+  // Record entries in the onboarding log (stamped with time and operator)
+  const recordLog = (
+    entries: Omit<LogEntry, "id" | "timestamp" | "operator">[],
+  ) => {
+    entries.forEach((entry) => {
+      appendLogEntry({
+        ...entry,
+        timestamp: Date.now(),
+        operator: connectedAccount || undefined,
+      })
+        .then((saved) => setLogEntries((current) => [saved, ...current]))
+        .catch((error) => console.error("Error writing session log:", error));
+    });
+  };
+
+  // Record the outcome of a trust batch for each address in it
+  const logTrustResult = (
+    action: LogAction,
+    addresses: string[],
+    result: TxResult,
+  ) => {
+    recordLog(
+      addresses.map((address) => ({
+        action,
+        outcome: result.error
+          ? "failed"
+          : result.txHash
+            ? "success"
+            : "proposed",
+        address,
+        groupAddress: selectedGroup?.address,
+        groupName: selectedGroup?.name,
+        context: contextInput || undefined,
+        txHash: result.txHash,
+        safeTxHash: result.safeTxHash,
+        message: result.error,
+      })),
+    );
+  };
+
+  // Function to fetch trusted groups from the RPC
+  const fetchTrustedGroups = async (trusterAddress: string) => {
+    const relations = await circlesRpc.trustRelations([
+      equals("truster", trusterAddress.toLowerCase()),
+    ]);
+
+    // Extract unique trustee addresses
+    const addresses = new Set(relations.map((relation) => relation.trustee));
+    return Array.from(addresses);
+  };
+
+  // Function to fetch the active trust relations from a group to the given members
+  const fetchGroupMemberships = async (
+    groupAddress: string,
+    memberAddresses: string[],
+  ): Promise<Map<string, TrustRelationRow>> => {
+    const relations = await circlesRpc.trustRelations([
+      and(
+        equals("truster", groupAddress.toLowerCase()),
+        inList(
+          "trustee",
+          memberAddresses.map((address) => address.toLowerCase()),
+        ),
+      ),
+    ]);
+
+    // Only count relations that have not expired yet
+    const now = Math.floor(Date.now() / 1000);
+    const memberships = new Map<string, TrustRelationRow>();
+    relations
+      .filter((relation) => relation.expiryTime > now)
+      .forEach((relation) =>
+        memberships.set(relation.trustee.toLowerCase(), relation),
+      );
+    return memberships;
+  };
 
-      // Extract unique trustee addresses from the rows (trustee is at index 5)
-      const addresses = new Set(data.result.rows.map((row: any[]) => row[5]));
-      return Array.from(addresses) as string[];
+  // Function to check whether a single address is already a group member
+  const checkMembership = async (
+    groupAddress: string,
+    memberAddress: string,
+  ): Promise<MembershipStatus> => {
+    try {
+      const memberships = await fetchGroupMemberships(groupAddress, [
+        memberAddress,
+      ]);
+      const relation = memberships.get(memberAddress.toLowerCase());
+      return relation
+        ? {
+            state: "member",
+            since: relation.timestamp,
+            expiry: relation.expiryTime,
+          }
+        : { state: "not-member" };
     } catch (error) {
-      console.error("Error fetching trusted groups:", error);
-      return [];
+      console.error("Error checking group membership:", error);
+      return {
+        state: "unknown",
+        error: (error as Error).message,
+        networkError: isNetworkError(error),
+      };
     }
   };
 
   // Function to get profile name from Circles API
-  const getProfileName = async (address: string): Promise<string> => {
+  const getProfileName = async (address: string): Promise<string | null> => {
     try {
-      const queryAddress = address.toLowerCase();
-      const url = `https://rpc.aboutcircles.com/profiles/search?address=${queryAddress}`;
-
-      const response = await fetch(url);
-      if (!response.ok) {
-        console.error("HTTP error", response.status, response.statusText);
-        return "Unnamed Group";
-      }
-
-      const data = await response.json();
-      if (Array.isArray(data)) {
-        const profile = data.find(
-          (entry) => entry.address.toLowerCase() === queryAddress,
-        );
-        return profile?.name || "Unnamed Group";
-      }
-      return "Unnamed Group";
+      const profile = await circlesRpc.getProfile(address);
+      return profile?.name || null;
     } catch (error) {
+      // A missing name should not stop the group list from loading
       console.error("Error fetching profile for", address, error);
-      return "Unnamed Group";
+      return null;
     }
   };
 
@@ -171,7 +510,7 @@ function App() {
   const getGroupOwner = async (
     groupAddress: string,
     rpcProvider: ethers.Provider,
-  ): Promise<string> => {
+  ): Promise<string | undefined> => {
     try {
       const groupContract = new ethers.Contract(
         groupAddress,
@@ -182,277 +521,606 @@ function App() {
       const ownerAddress = await groupContract.owner();
       return ownerAddress;
     } catch (error) {
+      // Unknown owner; ownership is resolved again when the group is selected
       console.error("Error getting group owner:", error);
-      return DEFAULT_SAFE_ADDRESS; // Fallback to default Safe address
+      return undefined;
     }
   };
 
-  // Fetch all groups data
-  const fetchGroupsData = async (rpcProvider: ethers.Provider) => {
-    setLoadingGroups(true);
+  // Turn cached group metadata into the groups shown in the dropdown
+  const toGroups = (cached: CachedGroup[], previous: Group[]): Group[] =>
+    cached.map((entry, index) => {
+      const group: Group = {
+        id: entry.address.toLowerCase(),
+        name: entry.name || `Group ${index + 1}`,
+        address: entry.address,
+        owner: entry.owner,
+      };
+      // Keep unchanged groups identical so effects keyed on them do not rerun
+      const existing = previous.find((candidate) => candidate.id === group.id);
+      return existing &&
+        existing.name === group.name &&
+        existing.owner === group.owner
+        ? existing
+        : group;
+    });
+
+  // Group loads outlive the render that started them (e.g. the mount effect),
+  // so they read the current groups and profile through refs
+  const availableGroupsRef = useRef(availableGroups);
+  availableGroupsRef.current = availableGroups;
+  const activeProfileRef = useRef(activeProfile);
+  activeProfileRef.current = activeProfile;
+
+  // Show the cached or placeholder groups at once, then refresh stale entries
+  // (or all of them, when forced) in the background
+  const fetchGroupsData = async (
+    rpcProvider: ethers.Provider,
+    config: OrgConfig = orgConfig,
+    force = false,
+  ) => {
+    const fallbackGroup: Group = {
+      id: "default-group",
+      name: config.fallbackGroupName,
+      address: config.fallbackGroupAddress,
+      owner: config.orgAddress,
+    };
+
+    const showGroups = (groups: Group[]) => {
+      setAvailableGroups(groups);
+      // Keep the selection, or start with the profile's group
+      const profileGroup =
+        activeProfileRef.current?.profile.settings.groupAddress;
+      setSelectedGroup((current) => {
+        const match =
+          current && groups.find((group) => group.id === current.id);
+        return (
+          match ||
+          groups.find((group) => group.id === profileGroup) ||
+          groups[0] ||
+          null
+        );
+      });
+    };
+
+    let cached = loadGroupCache(config.orgAddress);
+    let shown: Group[] = [];
+    if (cached.length > 0) {
+      shown = toGroups(cached, availableGroupsRef.current);
+      showGroups(shown);
+    } else {
+      setLoadingGroups(true);
+    }
+
+    setRefreshingGroups(true);
     try {
       // Fetch trusted groups from the truster (Circles organization)
-      const trustedGroups = await fetchTrustedGroups(DEFAULT_SAFE_ADDRESS);
+      const trustedGroups = await fetchTrustedGroups(config.orgAddress);
 
-      // Filter out the backers group address (case insensitive)
+      // Filter out excluded groups (case insensitive)
+      const excluded = config.excludedGroups.map((address) =>
+        address.toLowerCase(),
+      );
       const filteredGroups = trustedGroups.filter(
-        (address) =>
-          address.toLowerCase() !==
-          "0x1aca75e38263c79d9d4f10df0635cc6fcfe6f026",
+        (address) => !excluded.includes(address.toLowerCase()),
       );
 
       if (filteredGroups.length === 0) {
         // If no trusted groups found, add a fallback group
-        setAvailableGroups([
-          {
-            id: "default-group",
-            name: "Default Circles Group",
-            address: "0xeb614ef61367687704cd4628a68a02f3b10ce68c",
-            owner: DEFAULT_SAFE_ADDRESS,
-          },
-        ]);
-        setSelectedGroup({
-          id: "default-group",
-          name: "Default Circles Group",
-          address: "0xeb614ef61367687704cd4628a68a02f3b10ce68c",
-          owner: DEFAULT_SAFE_ADDRESS,
-        });
+        saveGroupCache(config.orgAddress, []);
+        showGroups([fallbackGroup]);
         return;
       }
 
-      // Process each group to get name and owner
-      const groupsWithDetails = await Promise.all(
-        filteredGroups.map(async (address, index) => {
-          // Get the group owner
-          const owner = await getGroupOwner(address, rpcProvider);
-
-          // Get the group name from profile
-          const name = await getProfileName(address);
+      // Groups the organization trusts now, with whatever is cached for them
+      cached = filteredGroups.map(
+        (address) =>
+          cached.find(
+            (entry) => entry.address.toLowerCase() === address.toLowerCase(),
+          ) || { address, name: null, fetchedAt: 0 },
+      );
+      shown = toGroups(cached, shown);
+      showGroups(shown);
+      setLoadingGroups(false);
 
+      // Fetch name and owner only for new or stale groups
+      const now = Date.now();
+      const refreshed = await mapWithConcurrency(
+        cached,
+        GROUP_FETCH_CONCURRENCY,
+        async (entry): Promise<CachedGroup> => {
+          if (!force && !isStale(entry, now)) return entry;
+
+          const [name, owner] = await Promise.all([
+            getProfileName(entry.address),
+            getGroupOwner(entry.address, rpcProvider),
+          ]);
+          // Failed lookups keep the previously cached values
           return {
-            id: `group-${index}`,
-            name: name || `Group ${index + 1}`,
-            address: address,
-            owner: owner,
+            address: entry.address,
+            name: name || entry.name,
+            owner: owner || entry.owner,
+            fetchedAt: Date.now(),
           };
-        }),
+        },
       );
 
-      setAvailableGroups(groupsWithDetails);
-
-      // Set the first group as selected by default
-      if (groupsWithDetails.length > 0) {
-        setSelectedGroup(groupsWithDetails[0]);
-        setSafeAddress(groupsWithDetails[0].owner || DEFAULT_SAFE_ADDRESS);
-      }
+      saveGroupCache(config.orgAddress, refreshed);
+      showGroups(toGroups(refreshed, shown));
     } catch (error) {
       console.error("Error fetching groups data:", error);
-      // Set fallback group
-      setAvailableGroups([
-        {
-          id: "default-group",
-          name: "Default Circles Group",
-          address: "0xeb614ef61367687704cd4628a68a02f3b10ce68c",
-          owner: DEFAULT_SAFE_ADDRESS,
-        },
-      ]);
-      setSelectedGroup({
-        id: "default-group",
-        name: "Default Circles Group",
-        address: "0xeb614ef61367687704cd4628a68a02f3b10ce68c",
-        owner: DEFAULT_SAFE_ADDRESS,
-      });
+      setErrorInfo(`Could not load groups: ${(error as Error).message}`);
+      // Keep showing cached groups; otherwise set the fallback group
+      if (shown.length === 0) {
+        showGroups([fallbackGroup]);
+      }
     } finally {
       setLoadingGroups(false);
+      setRefreshingGroups(false);
+    }
+  };
+
+  // Manually refresh names and owners of all groups
+  const refreshGroups = () => {
+    fetchGroupsData(
+      provider || new ethers.JsonRpcProvider(GNOSIS_RPC_URL),
+      orgConfig,
+      true,
+    );
+  };
+
+  // Apply a new organization configuration and reload its groups
+  const applyOrgSettings = (settings: OrgConfig | null) => {
+    if (settings) {
+      saveOrgSettings(settings);
+    } else {
+      clearOrgSettings();
+    }
+
+    const next = loadOrgConfig();
+    setOrgState(next);
+    fetchGroupsData(
+      provider || new ethers.JsonRpcProvider(GNOSIS_RPC_URL),
+      next.config,
+    );
+  };
+
+  // Save a profile locally (replacing one with the same name) and return the
+  // stored entry. Profiles from a file or a link without a trusted signature
+  // are stored as a copy, so they never overwrite a saved (e.g. locked) one.
+  const storeProfile = (profile: SessionProfile, replace = true) => {
+    if (!replace) {
+      const copy = addProfileCopy(sessionProfiles, profile);
+      saveProfiles(copy.profiles);
+      setSessionProfiles(copy.profiles);
+      return copy.stored;
+    }
+
+    const profiles = upsertProfile(sessionProfiles, profile);
+    saveProfiles(profiles);
+    setSessionProfiles(profiles);
+    return profiles.find(
+      (entry) => entry.name.toLowerCase() === profile.name.toLowerCase(),
+    )!;
+  };
+
+  const activateProfile = (active: ActiveProfile) => {
+    setActiveProfile(active);
+    saveActiveProfileId(active.profile.id);
+  };
+
+  // Keep a profile opened from a link, so it survives a reload without the link
+  useEffect(() => {
+    const linked = profileStartup.active;
+    if (linked?.source === "url") {
+      activateProfile({
+        ...linked,
+        profile: storeProfile(linked.profile, !!linked.trustedSigner),
+      });
+    }
+  }, []);
+
+  // Apply a saved or imported profile to the current session
+  const applySessionProfile = (active: ActiveProfile) => {
+    const { settings } = active.profile;
+    setActiveTab(settings.tab);
+    setOwnerMode(settings.ownerMode);
+    if (settings.safeAddress) setSafeAddress(settings.safeAddress);
+    setAutoInvite(settings.autoInvite);
+    setAutoGroup(settings.autoGroup);
+    setQueueScans(settings.queueScans);
+    setContinuousScan(settings.continuousScan);
+    setContextInput(settings.context);
+    setInviteMode(settings.inviteMode);
+    if (settings.groupAddress) {
+      selectGroupByAddress(settings.groupAddress, active.profile);
+    }
+
+    activateProfile({
+      ...active,
+      profile: storeProfile(active.profile, active.source === "saved"),
+    });
+  };
+
+  const currentProfileSettings = (): ProfileSettings => ({
+    tab: activeTab,
+    groupAddress: selectedGroup?.address.toLowerCase(),
+    ownerMode,
+    safeAddress: ownerMode === "safe" ? safeAddress.toLowerCase() : undefined,
+    autoInvite,
+    autoGroup,
+    queueScans,
+    continuousScan,
+    context: contextInput,
+    inviteMode,
+  });
+
+  const saveCurrentAsProfile = (
+    name: string,
+    locked: ProfileSettingKey[],
+    pinHash?: string,
+  ) => {
+    const profile = storeProfile({
+      id: Date.now().toString(36),
+      name,
+      settings: currentProfileSettings(),
+      locked,
+      pinHash,
+    });
+    // Saving never switches away from the active profile (and its locks)
+    if (!activeProfile || activeProfile.profile.id === profile.id) {
+      activateProfile({ profile, source: "saved" });
+    }
+  };
+
+  // Group and Safe of an untrusted link, applied only when the operator agrees
+  const resolveSuggestedProfile = (accept: boolean) => {
+    if (!activeProfile?.suggested) return;
+    const { suggested } = activeProfile;
+    let profile = activeProfile.profile;
+    if (accept) {
+      if (suggested.safeAddress) setSafeAddress(suggested.safeAddress);
+      if (suggested.groupAddress) selectGroupByAddress(suggested.groupAddress);
+      profile = storeProfile({
+        ...profile,
+        settings: { ...profile.settings, ...suggested },
+      });
     }
+    setActiveProfile({ ...activeProfile, profile, suggested: undefined });
+  };
+
+  // Overwrite the active profile with the current settings (this drops any
+  // signature, as the settings no longer match what was signed)
+  const updateActiveProfile = () => {
+    if (!activeProfile) return;
+    const profile = storeProfile({
+      ...activeProfile.profile,
+      settings: currentProfileSettings(),
+    });
+    activateProfile({ profile, source: "saved" });
+  };
+
+  const leaveProfile = () => {
+    setActiveProfile(null);
+    saveActiveProfileId(null);
+  };
+
+  const deleteProfile = (id: string) => {
+    const profiles = sessionProfiles.filter((profile) => profile.id !== id);
+    saveProfiles(profiles);
+    setSessionProfiles(profiles);
+    if (activeProfile?.profile.id === id) leaveProfile();
   };
 
-  // Initialize Safe SDK when wallet is connected and on correct network
+  // Show the name of the active organization
+  useEffect(() => {
+    let cancelled = false;
+    setOrgName(null);
+    getProfileName(orgConfig.orgAddress).then((name) => {
+      if (!cancelled) setOrgName(name);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgConfig.orgAddress]);
+
+  // (Re)create the Safe client whenever the wallet session or the Safe changes
   useEffect(() => {
+    setSafeClient(null);
+    if (
+      !walletSession ||
+      walletSession.chainId !== GNOSIS_CHAIN_ID ||
+      ownerMode !== "safe"
+    ) {
+      return;
+    }
+
+    let cancelled = false;
     const initSafeClient = async () => {
-      if (
-        walletConnected &&
-        isCorrectNetwork &&
-        walletEip1193Provider &&
-        ownerMode === "safe" &&
-        !safeClient // Only initialize if not already initialized
-      ) {
-        try {
-          // Get the connected wallet address
-          const connectedAddress = await signer?.getAddress();
-          if (!connectedAddress) {
-            throw new Error("Could not get connected wallet address");
-          }
+      try {
+        // Create Safe Client through the connected wallet
+        const client = await createSafeClient({
+          provider: walletSession.safeProvider as any,
+          signer: walletSession.safeSigner,
+          safeAddress: safeAddress,
+        });
 
-          // Create Safe Client with correct parameters
-          const client = await createSafeClient({
-            provider: walletEip1193Provider,
-            signer: connectedAddress,
-            safeAddress: safeAddress,
-          });
+        if (cancelled) return;
+        setSafeClient(client);
+        setErrorInfo(null);
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Failed to initialize Safe client:", error);
+        setErrorInfo(
+          `Failed to initialize Safe client: ${(error as Error).message}`,
+        );
+      }
+    };
 
-          setSafeClient(client);
-          setErrorInfo(null);
-        } catch (error) {
-          console.error("Failed to initialize Safe client:", error);
-          setSafeClient(null);
-          setErrorInfo(
-            `Failed to initialize Safe client: ${(error as Error).message}`,
-          );
+    initSafeClient();
+    return () => {
+      cancelled = true;
+    };
+  }, [walletSession, safeAddress, ownerMode]);
+
+  // Load the profile and Circles registration of the scanned address
+  useEffect(() => {
+    if (!scannedAddress) {
+      setProfileLookup(null);
+      return;
+    }
+
+    let cancelled = false;
+    setProfileLookup({ state: "loading" });
+    Promise.all([
+      circlesRpc.getProfile(scannedAddress),
+      circlesRpc.getAvatar(scannedAddress),
+    ])
+      .then(([profile, avatar]) => {
+        if (!cancelled) setProfileLookup({ state: "loaded", profile, avatar });
+      })
+      .catch((error) => {
+        console.error("Error loading profile:", error);
+        if (!cancelled) {
+          setProfileLookup({ state: "error", error: error.message });
         }
-      }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scannedAddress]);
+
+  // Look up membership whenever the scanned address or selected group changes
+  useEffect(() => {
+    if (!scannedAddress || !selectedGroup) {
+      setMembership(null);
+      return;
+    }
+
+    let cancelled = false;
+    setMembership({ state: "checking" });
+    checkMembership(selectedGroup.address, scannedAddress).then((status) => {
+      if (!cancelled) setMembership(status);
+    });
+
+    return () => {
+      cancelled = true;
     };
+  }, [scannedAddress, selectedGroup]);
 
-    if (ownerMode === "safe") {
-      initSafeClient();
+  // Simulate adding the scanned address so failures show before any prompt
+  useEffect(() => {
+    setAddSimulation(null);
+    const resolvedExpiry = resolveExpiry(expirySetting);
+    if (
+      !scannedAddress ||
+      !selectedGroup ||
+      !walletSession ||
+      !isCorrectNetwork ||
+      membership?.state === "member" ||
+      "error" in resolvedExpiry
+    ) {
+      return;
     }
+
+    let cancelled = false;
+    setSimulatingAdd(true);
+    simulateTrustBatch([scannedAddress], resolvedExpiry.expiry).then(
+      (result) => {
+        if (cancelled) return;
+        setAddSimulation(result);
+        setSimulatingAdd(false);
+      },
+    );
+
+    return () => {
+      cancelled = true;
+      setSimulatingAdd(false);
+    };
   }, [
-    walletConnected,
+    scannedAddress,
+    selectedGroup,
+    walletSession,
     isCorrectNetwork,
-    signer,
-    safeAddress,
     ownerMode,
-    walletEip1193Provider,
-    safeClient,
+    safeAddress,
+    expirySetting,
+    membership?.state,
   ]);
 
-  // Update Safe address when group changes (if it has an owner)
+  // Keep track of the connected account for signature bookkeeping
   useEffect(() => {
-    if (selectedGroup && selectedGroup.owner) {
-      setSafeAddress(selectedGroup.owner);
+    if (!signer) {
+      setConnectedAccount(null);
+      return;
     }
-  }, [selectedGroup]);
+    signer
+      .getAddress()
+      .then(setConnectedAccount)
+      .catch(() => {
+        setConnectedAccount(null);
+      });
+  }, [signer]);
 
-  // Check ownership statuses whenever selected group, wallet connection or mode changes
+  // Poll the transaction service for proposals of the current Safe
   useEffect(() => {
-    if (provider && selectedGroup) {
-      checkOwnershipStatuses();
-    }
-  }, [walletConnected, ownerMode, safeAddress, provider, selectedGroup]);
+    if (!safeClient) return;
 
-  // Function to check all ownership statuses
-  const checkOwnershipStatuses = async () => {
-    if (!provider || !selectedGroup) return;
+    const pending = safeProposals.filter(
+      (proposal) =>
+        proposal.status === "pending" &&
+        proposal.safeAddress.toLowerCase() === safeAddress.toLowerCase(),
+    );
+    if (pending.length === 0) return;
 
-    try {
-      // Create contract instance using the fallback provider if needed
-      const groupContract = new ethers.Contract(
-        selectedGroup.address,
-        GROUP_ABI,
-        provider,
-      );
+    const interval = setInterval(() => {
+      pending.forEach((proposal) => refreshSafeProposal(proposal.safeTxHash));
+    }, SAFE_PROPOSAL_POLL_MS);
 
-      // Try to get the owner with a direct call
-      try {
-        const ownerAddress = await groupContract.owner();
+    return () => clearInterval(interval);
+  }, [safeClient, safeProposals, safeAddress]);
 
-        // If we're using a wallet, check if it's the owner
-        if (signer) {
-          const connectedAddress = await signer.getAddress();
-          setIsDirectOwner(
-            ownerAddress.toLowerCase() === connectedAddress.toLowerCase(),
-          );
-        }
+  // Load the group's default expiry when the selected group changes
+  useEffect(() => {
+    if (selectedGroup) {
+      setExpirySetting(loadGroupExpiry(selectedGroup.address));
+    }
+  }, [selectedGroup]);
 
-        // Check if Safe is the owner
-        setIsSafeGroupOwner(
-          ownerAddress.toLowerCase() === safeAddress.toLowerCase(),
-        );
+  // Update Safe address when group changes (if it has an owner)
+  useEffect(() => {
+    if (selectedGroup && selectedGroup.owner && !isLocked("safeAddress")) {
+      setSafeAddress(selectedGroup.owner);
+    }
+  }, [selectedGroup]);
 
-        // If we're in Safe mode and have a wallet connected, check Safe ownership
-        if (ownerMode === "safe" && signer) {
-          try {
-            const safeContract = new ethers.Contract(
-              safeAddress,
-              SAFE_ABI,
-              provider,
-            );
-            const connectedAddress = await signer.getAddress();
-            const isOwner = await safeContract.isOwner(connectedAddress);
-            setIsSafeOwner(isOwner);
-
-            // Also get the threshold for the Safe
-            const threshold = await safeContract.getThreshold();
-            setSafeThreshold(Number(threshold));
-          } catch (error) {
-            console.error("Error checking Safe ownership:", error);
-            setIsSafeOwner(false);
-          }
-        }
-      } catch (error) {
-        console.error("Error calling owner() function:", error);
+  // Resolve who controls the selected group and pick the matching owner mode
+  useEffect(() => {
+    if (!provider || !selectedGroup || !walletSession) {
+      setOwnership(null);
+      return;
+    }
 
-        // Fallback: just allow operations based on mode
-        setIsDirectOwner(ownerMode === "direct");
-        setIsSafeGroupOwner(ownerMode === "safe");
-        setIsSafeOwner(ownerMode === "safe");
+    let cancelled = false;
+    setOwnership({ status: "checking" });
+    resolveOwnership(
+      provider,
+      selectedGroup.address,
+      walletSession.account,
+    ).then((result) => {
+      if (cancelled) return;
+      setOwnership(result);
+
+      // Settings locked by the session profile are left alone. Nested Safes
+      // cannot act from the app, so the owner mode stays as it is and the
+      // status points to the parent Safe.
+      if (result.status !== "owner" || isLocked("ownerMode")) return;
+      if (result.route.kind === "direct") {
+        setOwnerMode("direct");
+      } else if (result.route.kind === "safe") {
+        setOwnerMode("safe");
+        if (!isLocked("safeAddress")) setSafeAddress(result.route.safeAddress);
+        setSafeThreshold(result.route.threshold);
       }
-    } catch (error) {
-      console.error("Error in checkOwnershipStatuses:", error);
-      // Fallback to allow functionality despite errors
-      setIsDirectOwner(ownerMode === "direct");
-      setIsSafeGroupOwner(ownerMode === "safe");
-      setIsSafeOwner(ownerMode === "safe");
-    }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, selectedGroup, walletSession]);
+
+  // Apply a wallet connection (or its absence) to provider, signer and flags
+  const applyWalletSession = (session: WalletSession | null) => {
+    setWalletSession(session);
+    setProvider(
+      session?.provider || new ethers.JsonRpcProvider(GNOSIS_RPC_URL),
+    );
+    setSigner(session?.signer || null);
+    setWalletConnected(!!session);
+    setIsCorrectNetwork(session?.chainId === GNOSIS_CHAIN_ID);
   };
 
-  // Check network and setup wallet connection
+  // Restore the last wallet connection without prompting
   useEffect(() => {
     const checkWalletConnection = async () => {
-      if (window.ethereum) {
-        try {
-          // Check the current network first
-          const chainId = await window.ethereum.request({
-            method: "eth_chainId",
-          });
-          const networkId = parseInt(chainId, 16);
-          setIsCorrectNetwork(networkId === GNOSIS_CHAIN_ID);
-
-          // Setup provider based on network
-          let ethersProvider;
-          if (networkId === GNOSIS_CHAIN_ID) {
-            // Use MetaMask provider if on Gnosis Chain
-            ethersProvider = new ethers.BrowserProvider(window.ethereum);
-          } else {
-            // Use direct RPC provider if on wrong network
-            ethersProvider = new ethers.JsonRpcProvider(GNOSIS_RPC_URL);
-          }
+      const connector = walletConnectors.find(
+        (candidate) => candidate.id === (loadLastConnector() || "injected"),
+      );
+      if (!connector || !connector.available()) return;
 
-          setProvider(ethersProvider);
+      try {
+        const session = await connector.reconnect();
+        if (session) applyWalletSession(session);
+      } catch (error) {
+        console.error("Failed to check wallet connection:", error);
+      }
+    };
 
-          // Check if already connected
-          const accounts = await window.ethereum.request({
-            method: "eth_accounts",
-          });
-          if (accounts.length > 0) {
-            // Only setup signer if on correct network
-            if (networkId === GNOSIS_CHAIN_ID) {
-              const ethersSigner = await ethersProvider.getSigner();
-              setSigner(ethersSigner);
-            }
-            setWalletConnected(true);
-          }
+    checkWalletConnection();
+  }, []);
 
-          // Listen for network changes
-          window.ethereum.on("chainChanged", (_chainId: string) => {
-            window.location.reload();
-          });
-        } catch (error) {
-          console.error("Failed to check wallet connection:", error);
+  // Follow account and network changes of the wallet in place, keeping the
+  // scan, context and group selection
+  const walletEip1193 = walletSession?.eip1193;
+  const walletConnectorId = walletSession?.connectorId;
+  useEffect(() => {
+    if (!walletEip1193?.on) return;
+
+    const connector = walletConnectors.find(
+      (candidate) => candidate.id === walletConnectorId,
+    );
+    let latestRefresh = 0;
+    let unmounted = false;
+
+    const refreshWalletSession = async () => {
+      const refresh = ++latestRefresh;
+      try {
+        const session = (await connector?.reconnect()) || null;
+        // Ignore results overtaken by a later event
+        if (!unmounted && refresh === latestRefresh) {
+          applyWalletSession(session);
         }
+      } catch (error) {
+        console.error("Failed to refresh wallet connection:", error);
       }
     };
 
-    checkWalletConnection();
-  }, []);
+    const events = ["accountsChanged", "chainChanged", "disconnect"];
+    events.forEach((event) => walletEip1193.on?.(event, refreshWalletSession));
+    return () => {
+      unmounted = true;
+      events.forEach((event) =>
+        walletEip1193.removeListener?.(event, refreshWalletSession),
+      );
+    };
+  }, [walletEip1193, walletConnectorId]);
+
+  // Keep the kiosk on its preconfigured group and template (also after a reload)
+  useEffect(() => {
+    if (!kiosk?.active) return;
+    if (inviteTemplateId !== kiosk.templateId) {
+      setInviteTemplateId(kiosk.templateId);
+    }
+    if (
+      kiosk.groupAddress &&
+      availableGroups.length > 0 &&
+      selectedGroup?.address.toLowerCase() !== kiosk.groupAddress
+    ) {
+      selectGroupByAddress(kiosk.groupAddress);
+    }
+  }, [kiosk, availableGroups]);
 
   // Function to switch to Gnosis Chain
-  const switchToGnosisChain = async () => {
-    if (!window.ethereum) return;
+  const switchToGnosisChain = async (
+    eip1193: Eip1193Provider | undefined = walletSession?.eip1193,
+  ) => {
+    if (!eip1193) return;
 
     try {
       // Try to switch to Gnosis Chain
-      await window.ethereum.request({
+      await eip1193.request({
         method: "wallet_switchEthereumChain",
         params: [{ chainId: "0x64" }], // 100 in hex
       });
@@ -460,7 +1128,7 @@ function App() {
       // If the chain hasn't been added to MetaMask, add it
       if (switchError.code === 4902) {
         try {
-          await window.ethereum.request({
+          await eip1193.request({
             method: "wallet_addEthereumChain",
             params: [
               {
@@ -485,41 +1153,21 @@ function App() {
     }
   };
 
-  // Function to connect wallet
-  const connectWallet = async () => {
+  // Function to connect wallet through one of the connectors
+  const connectWallet = async (connector: WalletConnector) => {
     setErrorInfo(null);
 
-    if (!window.ethereum) {
-      setErrorInfo(
-        "No Ethereum wallet detected. Please install MetaMask or another compatible wallet.",
-      );
-      return;
-    }
-
     try {
       setIsLoading(true);
 
-      // Request account access
-      await window.ethereum.request({ method: "eth_requestAccounts" });
-
-      // Check network and prompt to switch if needed
-      const chainId = await window.ethereum.request({ method: "eth_chainId" });
-      const networkId = parseInt(chainId, 16);
+      const session = await connector.connect();
+      saveLastConnector(connector.id);
+      applyWalletSession(session);
 
-      if (networkId !== GNOSIS_CHAIN_ID) {
-        await switchToGnosisChain();
-        return;
+      // Prompt to switch if the wallet is on another network
+      if (session.chainId !== GNOSIS_CHAIN_ID) {
+        await switchToGnosisChain(session.eip1193);
       }
-
-      // Setup provider and signer
-      const ethersProvider = new ethers.BrowserProvider(window.ethereum);
-      setProvider(ethersProvider);
-
-      const ethersSigner = await ethersProvider.getSigner();
-      setSigner(ethersSigner);
-
-      setWalletConnected(true);
-      setIsCorrectNetwork(true);
     } catch (error) {
       console.error("Error connecting wallet:", error);
       setErrorInfo(`Failed to connect wallet: ${(error as Error).message}`);
@@ -528,56 +1176,379 @@ function App() {
     }
   };
 
-  // Function to create Tally URL and open it
-  const createTallyUrl = (address: string) => {
+  const disconnectWallet = async () => {
+    const connector = walletConnectors.find(
+      (candidate) => candidate.id === walletSession?.connectorId,
+    );
+    try {
+      await connector?.disconnect();
+    } catch (error) {
+      console.error("Error disconnecting wallet:", error);
+    }
+    saveLastConnector(null);
+    applyWalletSession(null);
+  };
+
+  // Fill the selected invite template for an address
+  const buildInviteUrl = (
+    address: string,
+    context = contextInput,
+    link: { token: string; expires: string } = { token: "", expires: "" },
+  ) =>
+    fillTemplate(inviteTemplate, {
+      ...link,
+      address,
+      context,
+      event: inviteSession.event,
+      operator: inviteSession.operator,
+      group: selectedGroup?.name || "",
+      groupAddress: selectedGroup?.address || "",
+      language: inviteSession.language,
+    });
+
+  // Open the filled invitation form in a new tab
+  const openInviteForm = (address: string, context = contextInput) => {
+    // The form cannot load without a connection, so save the scan for later
+    if (!isOnline) {
+      captureScan(address, "invite");
+      return null;
+    }
+
     setProcessingTally(true);
 
     try {
-      const baseUrl = "https://tally.so/r/wv1k10";
-      // Include the context parameter if it's not empty
-      const contextParam = contextInput
-        ? `&context=${encodeURIComponent(contextInput)}`
-        : "";
-      const fullUrl = `${baseUrl}?address=${encodeURIComponent(address)}${contextParam}`;
+      const fullUrl = buildInviteUrl(address, context);
 
       // Always open the URL in a new tab when the button is clicked
       window.open(fullUrl, "_blank");
 
+      recordLog([
+        {
+          action: "invite",
+          outcome: "success",
+          address,
+          context: context || undefined,
+          message: `Invitation form opened (${inviteTemplate.name})`,
+        },
+      ]);
+
       return fullUrl;
     } catch (error) {
-      setErrorInfo(`Error creating Tally URL: ${(error as Error).message}`);
+      setErrorInfo(
+        `Error creating invitation link: ${(error as Error).message}`,
+      );
       return null;
     } finally {
       setProcessingTally(false);
     }
   };
 
+  // Show the form link as a large QR code so the newcomer fills in the form
+  // on their own phone; the token and expiry travel with the link
+  const showInviteQrCode = (address: string, context = contextInput) => {
+    const token = inviteSession.oneTimeToken ? createInviteToken() : "";
+    const expiresAt =
+      inviteSession.linkExpiryMinutes > 0
+        ? Date.now() + inviteSession.linkExpiryMinutes * 60 * 1000
+        : undefined;
+    const expires = expiresAt ? new Date(expiresAt).toISOString() : "";
+
+    try {
+      // Templates without {token} or {expires} get them as query parameters
+      const url = withLinkParams(
+        buildInviteUrl(address, context, { token, expires }),
+        Object.fromEntries(
+          Object.entries({ token, expires }).filter(
+            ([key]) => !inviteTemplate.urlPattern.includes(`{${key}}`),
+          ),
+        ),
+      );
+      setSharedInvite({
+        address,
+        url,
+        token: token || undefined,
+        expiresAt,
+      });
+
+      recordLog([
+        {
+          action: "invite",
+          outcome: "success",
+          address,
+          context: context || undefined,
+          message: [
+            `Invitation QR shown (${inviteTemplate.name})`,
+            token && `token ${token}`,
+            expiresAt && `expires ${new Date(expiresAt).toLocaleString()}`,
+          ]
+            .filter(Boolean)
+            .join(", "),
+        },
+      ]);
+      return url;
+    } catch (error) {
+      setErrorInfo(
+        `Error creating invitation link: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  };
+
+  const updateInviteSession = (session: InviteSession) => {
+    setInviteSession(session);
+    saveInviteSession(session);
+
+    // Switch to the template remembered for the new event
+    if (session.event !== inviteSession.event) {
+      const templateId = loadEventTemplate(session.event);
+      if (
+        templateId &&
+        inviteTemplates.some((template) => template.id === templateId)
+      ) {
+        setInviteTemplateId(templateId);
+      }
+    }
+  };
+
+  const selectInviteTemplate = (templateId: string) => {
+    setInviteTemplateId(templateId);
+    saveEventTemplate(inviteSession.event, templateId);
+  };
+
+  const updateInviteTemplates = (templates: InviteTemplate[]) => {
+    setInviteTemplates(templates);
+    saveTemplates(templates);
+  };
+
+  // Simulate the invitation from the inviter, then send it from the wallet or
+  // propose it through the Safe
+  const sendInvitation = async (
+    wallet: { provider: ethers.Provider; signer: ethers.Signer },
+    inviter: string,
+    address: string,
+  ): Promise<TxResult> => {
+    const data = encodeInvitation(address);
+    const simulation = await simulateTransaction(wallet.provider, {
+      from: inviter,
+      to: CIRCLES_HUB_ADDRESS,
+      data,
+    });
+    if (!simulation.ok) {
+      const error = `Simulation failed, nothing was sent: ${simulation.reason}`;
+      setErrorInfo(error);
+      return { error, networkError: simulation.networkError };
+    }
+
+    setTxAction("invite");
+    if (ownerMode === "direct") {
+      const tx = await wallet.signer.sendTransaction({
+        to: CIRCLES_HUB_ADDRESS,
+        data,
+      });
+      await tx.wait();
+      setTxHash(tx.hash);
+      return { txHash: tx.hash };
+    }
+    return sendSafeTransactions(
+      [
+        {
+          to: CIRCLES_HUB_ADDRESS,
+          data,
+          value: "0",
+        },
+      ],
+      {
+        groupAddress: CIRCLES_HUB_ADDRESS,
+        groupName: "Circles Hub",
+        description: `Invite ${address.substring(0, 6)}...${address.substring(38)}`,
+        action: "invite",
+        members: [address],
+      },
+    );
+  };
+
+  // Invite an address through the Circles v2 Hub, from the wallet or the Safe.
+  // When replaying a captured scan, network errors update that scan instead of
+  // capturing a new one.
+  const inviteOnChain = async (
+    address: string,
+    context = contextInput,
+    scanId?: string,
+  ): Promise<TxResult> => {
+    if (!isOnline) {
+      if (!scanId) captureScan(address, "invite");
+      return { error: "Offline", networkError: true };
+    }
+
+    setErrorInfo(null);
+    setTxHash(null);
+
+    if (!signer || !provider) {
+      const error = "Wallet not connected. Please connect your wallet first.";
+      setErrorInfo(error);
+      return { error };
+    }
+
+    if (!isCorrectNetwork) {
+      const error = "Please switch to Gnosis Chain to perform transactions.";
+      setErrorInfo(error);
+      await switchToGnosisChain();
+      return { error };
+    }
+
+    if (ownerMode === "safe" && !safeClient) {
+      const error = "Safe client not initialized. Please try again.";
+      setErrorInfo(error);
+      return { error };
+    }
+
+    let result: TxResult;
+    setProcessingInvite(true);
+    try {
+      const inviter =
+        ownerMode === "direct" ? await signer.getAddress() : safeAddress;
+
+      // Make sure the invitation can succeed before prompting the wallet
+      const check = await checkInvitation(provider, inviter, address);
+      if (!check.ok) {
+        setErrorInfo(check.reason);
+        result = { error: check.reason, alreadyDone: check.alreadyDone };
+      } else {
+        result = await sendInvitation({ provider, signer }, inviter, address);
+      }
+    } catch (error) {
+      console.error("Error sending invitation:", error);
+      const message = `Failed to invite: ${(error as Error).message}`;
+      setErrorInfo(message);
+      result = { error: message, networkError: isNetworkError(error) };
+    } finally {
+      setProcessingInvite(false);
+    }
+
+    if (result.networkError && scanId) {
+      updateCapturedScans([scanId], {
+        status: "queued",
+        message: result.error,
+      });
+    } else if (result.networkError) {
+      captureScan(address, "invite");
+    }
+
+    recordLog([
+      {
+        action: "invite",
+        outcome: result.alreadyDone
+          ? "skipped"
+          : result.error
+            ? "failed"
+            : result.txHash
+              ? "success"
+              : "proposed",
+        address,
+        context: context || undefined,
+        txHash: result.txHash,
+        safeTxHash: result.safeTxHash,
+        message: result.error || "On-chain invitation (inviter trust)",
+      },
+    ]);
+    return result;
+  };
+
+  // Invite an address using the given invite mode, the selected one by default
+  const inviteAddress = async (
+    address: string,
+    context = contextInput,
+    mode = inviteMode,
+  ) => {
+    if (mode === "onchain") {
+      const result = await inviteOnChain(address, context);
+      return !result.error;
+    }
+    return inviteSession.delivery === "qr"
+      ? !!showInviteQrCode(address, context)
+      : !!openInviteForm(address, context);
+  };
+
+  // Update the expiry setting and remember it as the group's default
+  const updateExpirySetting = (update: Partial<ExpirySetting>) => {
+    const next = { ...expirySetting, ...update };
+    setExpirySetting(next);
+    if (selectedGroup) {
+      saveGroupExpiry(selectedGroup.address, next);
+    }
+  };
+
   // Add a handler for the context input
   const handleContextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setContextInput(e.target.value);
   };
 
-  // Function to add address to group directly
-  const addToGroupDirect = async (address: string) => {
-    if (!selectedGroup) return;
+  // Simulate a trust batch from the account that will send it: the wallet, or
+  // the Safe itself (owner signatures are only checked on execution)
+  const simulateTrustBatch = async (
+    addresses: string[],
+    expiry: number,
+  ): Promise<SimulationResult> => {
+    if (!selectedGroup || !provider) {
+      return { ok: false, reason: "No group selected" };
+    }
+    const from = ownerMode === "direct" ? walletSession?.account : safeAddress;
+    if (!from) {
+      return { ok: false, reason: "Wallet not connected" };
+    }
+
+    return simulateTransaction(provider, {
+      from,
+      to: selectedGroup.address,
+      data: new ethers.Interface(GROUP_ABI).encodeFunctionData(
+        "trustBatchWithConditions",
+        [addresses, expiry],
+      ),
+    });
+  };
+
+  // Block sending when the simulation fails, with the decoded reason
+  const checkSimulation = async (
+    addresses: string[],
+    expiry: number,
+  ): Promise<TxResult | null> => {
+    const simulation = await simulateTrustBatch(addresses, expiry);
+    if (simulation.ok) return null;
+
+    const error = `Simulation failed, nothing was sent: ${simulation.reason}`;
+    setErrorInfo(error);
+    return { error, networkError: simulation.networkError };
+  };
+
+  // Function to send trustBatchWithConditions to the group directly
+  const trustBatchDirect = async (
+    addresses: string[],
+    expiry: number,
+  ): Promise<TxResult> => {
+    if (!selectedGroup) return { error: "No group selected" };
 
     setErrorInfo(null);
     setTxHash(null);
 
     if (!signer) {
-      setErrorInfo("Wallet not connected. Please connect your wallet first.");
-      return;
+      const error = "Wallet not connected. Please connect your wallet first.";
+      setErrorInfo(error);
+      return { error };
     }
 
     if (!isCorrectNetwork) {
-      setErrorInfo("Please switch to Gnosis Chain to perform transactions.");
+      const error = "Please switch to Gnosis Chain to perform transactions.";
+      setErrorInfo(error);
       await switchToGnosisChain();
-      return;
+      return { error };
     }
 
     try {
       setProcessingGroup(true);
 
+      const simulationFailure = await checkSimulation(addresses, expiry);
+      if (simulationFailure) return simulationFailure;
+
       // Create contract instance
       const groupContract = new ethers.Contract(
         selectedGroup.address,
@@ -585,10 +1556,6 @@ function App() {
         signer,
       );
 
-      // Format parameters for trustBatchWithConditions
-      const addresses = [address]; // Array with single address
-      const expiry = 9999999999; // Far future expiry
-
       // Call the contract function
       const tx = await groupContract.trustBatchWithConditions(
         addresses,
@@ -599,44 +1566,56 @@ function App() {
       await tx.wait();
 
       setTxHash(tx.hash);
+      return { txHash: tx.hash };
     } catch (error) {
-      console.error("Error adding to group:", error);
-      setErrorInfo(`Failed to add to group: ${(error as Error).message}`);
+      console.error("Error updating group trust:", error);
+      const message = `Failed to ${
+        expiry > Math.floor(Date.now() / 1000) ? "add to" : "remove from"
+      } group: ${(error as Error).message}`;
+      setErrorInfo(message);
+      return { error: message, networkError: isNetworkError(error) };
     } finally {
       setProcessingGroup(false);
     }
   };
 
-  // Function to add address to group via Safe using the SDK Starter Kit
-  const addToGroupViaSafe = async (address: string) => {
-    if (!selectedGroup) return;
+  // Function to send trustBatchWithConditions via Safe using the SDK Starter Kit
+  const trustBatchViaSafe = async (
+    addresses: string[],
+    expiry: number,
+  ): Promise<TxResult> => {
+    if (!selectedGroup) return { error: "No group selected" };
 
     setErrorInfo(null);
     setTxHash(null);
 
     if (!signer) {
-      setErrorInfo("Wallet not connected. Please connect your wallet first.");
-      return;
+      const error = "Wallet not connected. Please connect your wallet first.";
+      setErrorInfo(error);
+      return { error };
     }
 
     if (!isCorrectNetwork) {
-      setErrorInfo("Please switch to Gnosis Chain to perform transactions.");
+      const error = "Please switch to Gnosis Chain to perform transactions.";
+      setErrorInfo(error);
       await switchToGnosisChain();
-      return;
+      return { error };
     }
 
     if (!safeClient) {
-      setErrorInfo("Safe client not initialized. Please try again.");
-      return;
+      const error = "Safe client not initialized. Please try again.";
+      setErrorInfo(error);
+      return { error };
     }
 
     try {
       setProcessingGroup(true);
 
+      const simulationFailure = await checkSimulation(addresses, expiry);
+      if (simulationFailure) return simulationFailure;
+
       // Create the transaction data for the group contract call
       const groupInterface = new ethers.Interface(GROUP_ABI);
-      const addresses = [address]; // Array with single address
-      const expiry = 9999999999; // Far future expiry
 
       // Create the encoded function call
       const txData = groupInterface.encodeFunctionData(
@@ -644,87 +1623,1085 @@ function App() {
         [addresses, expiry],
       );
 
-      // Create the transaction object for the Safe SDK
-      const transactions = [
+      // Execute the transaction
+      const removing = expiry <= Math.floor(Date.now() / 1000);
+      return await sendSafeTransactions(
+        [
+          {
+            to: selectedGroup.address,
+            data: txData,
+            value: "0",
+          },
+        ],
         {
-          to: selectedGroup.address,
-          data: txData,
-          value: "0",
+          groupAddress: selectedGroup.address,
+          groupName: selectedGroup.name,
+          description: `${removing ? "Remove" : "Add"} ${addresses.length} ${
+            addresses.length === 1 ? "member" : "members"
+          }`,
+          action: removing ? "group-remove" : "group-add",
+          members: addresses,
         },
-      ];
+      );
+    } finally {
+      setProcessingGroup(false);
+    }
+  };
 
-      // Execute the transaction
-      const txResult = await safeClient.send({ transactions });
+  // Send transactions through the Safe; proposals that still need signatures
+  // are tracked in the pending proposals panel
+  const sendSafeTransactions = async (
+    transactions: { to: string; data: string; value: string }[],
+    proposal: Pick<
+      SafeProposal,
+      | "groupAddress"
+      | "groupName"
+      | "description"
+      | "action"
+      | "members"
+      | "groups"
+    >,
+    safe: { client: any; address: string; threshold: number } = {
+      client: safeClient,
+      address: safeAddress,
+      threshold: safeThreshold,
+    },
+  ): Promise<TxResult> => {
+    try {
+      const txResult = await safe.client.send({ transactions });
+      const hashes = readSafeResult(txResult);
 
       // For threshold=1, the transaction should be executed immediately
-      if (txResult.transaction?.transactionHash) {
-        setTxHash(txResult.transaction.transactionHash);
+      if (hashes.txHash) {
+        setTxHash(hashes.txHash);
         setErrorInfo(null);
+        return { txHash: hashes.txHash };
       }
       // For threshold>1, we'll get a safeTxHash but no transactionHash yet
-      else if (txResult.transaction?.safeTxHash) {
+      else if (hashes.safeTxHash) {
         setTxHash(null);
-        setErrorInfo(
-          `Transaction created with Safe TX hash: ${txResult.transaction.safeTxHash}. This Safe requires ${safeThreshold} signatures.`,
-        );
+        setErrorInfo(null);
+
+        trackSafeProposal({
+          ...proposal,
+          safeTxHash: hashes.safeTxHash,
+          safeAddress: safe.address,
+          createdAt: Date.now(),
+          confirmations: connectedAccount ? [connectedAccount] : [],
+          threshold: safe.threshold,
+          status: "pending",
+        });
+        return { safeTxHash: hashes.safeTxHash };
+      } else {
+        const error =
+          "Transaction created but no transaction hash returned. Check the Safe transaction service for status.";
+        setErrorInfo(error);
+        return { error };
+      }
+    } catch (error) {
+      console.error("Error creating/executing Safe transaction:", error);
+      const message = describeSafeError(error);
+      setErrorInfo(message);
+      return { error: message, networkError: isNetworkError(error) };
+    }
+  };
+
+  // Provide more detailed error information based on the type of error
+  const describeSafeError = (error: unknown) => {
+    if (typeof error === "object" && error !== null) {
+      const errorObj = error as any;
+      if (errorObj.reason) {
+        return `Transaction error: ${errorObj.reason}`;
+      } else if (errorObj.message) {
+        return `Failed to execute Safe transaction: ${errorObj.message}`;
+      }
+      return `Failed to execute Safe transaction: ${JSON.stringify(error)}`;
+    }
+    return `Failed to execute Safe transaction: ${String(error)}`;
+  };
+
+  // Add a new proposal to the pending proposals panel
+  const trackSafeProposal = (proposal: SafeProposal) => {
+    setSafeProposals((current) => [
+      proposal,
+      ...current.filter((entry) => entry.safeTxHash !== proposal.safeTxHash),
+    ]);
+  };
+
+  const updateSafeProposal = (
+    safeTxHash: string,
+    update: (proposal: SafeProposal) => SafeProposal,
+  ) => {
+    setSafeProposals((current) =>
+      current.map((proposal) =>
+        proposal.safeTxHash === safeTxHash ? update(proposal) : proposal,
+      ),
+    );
+  };
+
+  // Log each member of an executed (or reverted) proposal
+  const logSafeProposalOutcome = (
+    proposal: SafeProposal,
+    result: { txHash?: string; error?: string },
+  ) => {
+    if (!proposal.action || !proposal.members) return;
+
+    const groups = proposal.groups || [
+      {
+        groupAddress: proposal.groupAddress,
+        groupName: proposal.groupName,
+        members: proposal.members,
+      },
+    ];
+    recordLog(
+      groups.flatMap((group) =>
+        group.members.map((address) => ({
+          action: proposal.action!,
+          outcome: result.error ? ("failed" as const) : ("success" as const),
+          address,
+          groupAddress: group.groupAddress,
+          groupName: group.groupName,
+          txHash: result.txHash,
+          safeTxHash: proposal.safeTxHash,
+          message: result.error || "Safe proposal executed",
+        })),
+      ),
+    );
+  };
+
+  // Reload signatures and execution state from the Safe transaction service.
+  // A proposal executed outside the app is logged here, unless the caller
+  // already logged it.
+  const refreshSafeProposal = async (
+    safeTxHash: string,
+    logExecution = true,
+  ) => {
+    if (!safeClient) return;
+
+    try {
+      const serviceTx: ServiceTransaction =
+        await safeClient.apiKit.getTransaction(safeTxHash);
+      const proposal = safeProposals.find(
+        (entry) => entry.safeTxHash === safeTxHash,
+      );
+      if (proposal) {
+        const refreshed = applyServiceTransaction(proposal, serviceTx);
+        if (
+          logExecution &&
+          proposal.status !== "executed" &&
+          proposal.status !== "failed" &&
+          (refreshed.status === "executed" || refreshed.status === "failed")
+        ) {
+          logSafeProposalOutcome(refreshed, {
+            txHash: refreshed.txHash,
+            error: refreshed.status === "failed" ? refreshed.error : undefined,
+          });
+        }
+      }
+      updateSafeProposal(safeTxHash, (entry) =>
+        applyServiceTransaction(entry, serviceTx),
+      );
+    } catch (error) {
+      console.error("Error refreshing Safe proposal:", error);
+    }
+  };
+
+  // Load pending proposals for our groups, e.g. when a second owner opens the app
+  const loadPendingProposals = async () => {
+    if (!safeClient) return;
+
+    try {
+      const pending = await safeClient.getPendingTransactions();
+      (pending.results || [])
+        .filter((serviceTx: ServiceTransaction) =>
+          availableGroups.some(
+            (group) =>
+              group.address.toLowerCase() === serviceTx.to?.toLowerCase(),
+          ),
+        )
+        .forEach((serviceTx: ServiceTransaction) => {
+          const group = availableGroups.find(
+            (entry) =>
+              entry.address.toLowerCase() === serviceTx.to.toLowerCase(),
+          );
+          trackSafeProposal(
+            applyServiceTransaction(
+              {
+                safeTxHash: serviceTx.safeTxHash,
+                safeAddress,
+                groupAddress: serviceTx.to,
+                groupName: group?.name || serviceTx.to,
+                description: `Safe transaction #${serviceTx.nonce}`,
+                createdAt: Date.parse(serviceTx.submissionDate) || Date.now(),
+                confirmations: [],
+                threshold: safeThreshold,
+                status: "pending",
+              },
+              serviceTx,
+            ),
+          );
+        });
+    } catch (error) {
+      console.error("Error loading pending Safe transactions:", error);
+      setErrorInfo(
+        `Failed to load pending Safe transactions: ${(error as Error).message}`,
+      );
+    }
+  };
 
-        // Open the Safe web app for the user to view and manage the transaction
-        window.open(
-          `https://app.safe.global/transactions/queue?safe=gno:${safeAddress}`,
-          "_blank",
+  // Sign a proposal with the connected owner; executes once the threshold is met
+  const confirmSafeProposal = async (safeTxHash: string) => {
+    if (!safeClient) {
+      setErrorInfo("Safe client not initialized. Please try again.");
+      return;
+    }
+
+    updateSafeProposal(safeTxHash, (proposal) => ({
+      ...proposal,
+      status: "executing",
+      error: undefined,
+    }));
+
+    try {
+      const result = await safeClient.confirm({ safeTxHash });
+      const hashes = readSafeResult(result);
+
+      if (hashes.txHash) {
+        updateSafeProposal(safeTxHash, (proposal) => ({
+          ...proposal,
+          status: "executed",
+          txHash: hashes.txHash,
+        }));
+
+        const proposal = safeProposals.find(
+          (entry) => entry.safeTxHash === safeTxHash,
         );
+        if (proposal) {
+          logSafeProposalOutcome(proposal, { txHash: hashes.txHash });
+        }
       } else {
+        updateSafeProposal(safeTxHash, (proposal) => ({
+          ...proposal,
+          status: "pending",
+        }));
+      }
+      // Executing here was logged above
+      await refreshSafeProposal(safeTxHash, !hashes.txHash);
+    } catch (error) {
+      console.error("Error confirming Safe proposal:", error);
+      updateSafeProposal(safeTxHash, (proposal) => ({
+        ...proposal,
+        status: "pending",
+        error: describeSafeError(error),
+      }));
+    }
+  };
+
+  // Route a trust batch to the appropriate method for the owner mode
+  const sendTrustBatch = async (addresses: string[], expiry: number) => {
+    if (ownerMode === "direct") {
+      return trustBatchDirect(addresses, expiry);
+    }
+    return trustBatchViaSafe(addresses, expiry);
+  };
+
+  // Main function to add addresses to group with the configured expiry
+  const addToGroup = async (addresses: string[]): Promise<TxResult> => {
+    const resolvedExpiry = resolveExpiry(expirySetting);
+    if ("error" in resolvedExpiry) {
+      setErrorInfo(resolvedExpiry.error);
+      return { error: resolvedExpiry.error };
+    }
+
+    setTxAction("add");
+    if (targetGroups.length > 1) {
+      return addToSelectedGroups(addresses, resolvedExpiry.expiry);
+    }
+    const result = await sendTrustBatch(addresses, resolvedExpiry.expiry);
+    logTrustResult("group-add", addresses, result);
+    return result;
+  };
+
+  // Add members to every selected group: one MultiSend per owner Safe and one
+  // transaction per directly owned group, with the outcome of each group
+  const addToSelectedGroups = async (
+    addresses: string[],
+    expiry: number,
+  ): Promise<TxResult> => {
+    setErrorInfo(null);
+    setTxHash(null);
+
+    if (!provider || !walletSession || !signer) {
+      const error = "Wallet not connected. Please connect your wallet first.";
+      setErrorInfo(error);
+      return { error };
+    }
+
+    if (!isCorrectNetwork) {
+      const error = "Please switch to Gnosis Chain to perform transactions.";
+      setErrorInfo(error);
+      await switchToGnosisChain();
+      return { error };
+    }
+
+    // Latest state of every group, in the order the groups were selected
+    const results = new Map<string, GroupTarget>();
+    const updateTarget = (target: GroupTarget) => {
+      results.set(target.groupAddress, target);
+      setGroupTargets(Array.from(results.values()));
+    };
+
+    try {
+      setProcessingGroup(true);
+      setGroupTargets([]);
+
+      const ownerships = await Promise.all(
+        targetGroups.map((group) =>
+          resolveOwnership(provider, group.address, walletSession.account),
+        ),
+      );
+      const plan = planGroupTargets(targetGroups, ownerships, addresses);
+      const planned = [
+        ...plan.direct,
+        ...plan.safes.flatMap((bundle) => bundle.targets),
+        ...plan.unavailable,
+      ];
+      targetGroups.forEach((group) =>
+        updateTarget(
+          planned.find((target) => target.groupAddress === group.address)!,
+        ),
+      );
+
+      // Drop existing members per group, then simulate what is left
+      const groupInterface = new ethers.Interface(GROUP_ABI);
+      const encodeAdd = (members: string[]) =>
+        groupInterface.encodeFunctionData("trustBatchWithConditions", [
+          members,
+          expiry,
+        ]);
+      const prepare = async (target: GroupTarget): Promise<GroupTarget> => {
+        let memberships: Map<string, TrustRelationRow>;
+        try {
+          memberships = await fetchGroupMemberships(
+            target.groupAddress,
+            addresses,
+          );
+        } catch (error) {
+          return {
+            ...target,
+            status: "failed",
+            error: `Could not check existing memberships: ${
+              (error as Error).message
+            }`,
+            networkError: isNetworkError(error),
+          };
+        }
+
+        const existing = addresses.filter((address) =>
+          memberships.has(address.toLowerCase()),
+        );
+        if (existing.length > 0) {
+          recordLog(
+            existing.map((address) => ({
+              action: "group-add",
+              outcome: "skipped",
+              address,
+              groupAddress: target.groupAddress,
+              groupName: target.groupName,
+              context: contextInput || undefined,
+              message: "Already a member",
+            })),
+          );
+        }
+        const members = addresses.filter(
+          (address) => !existing.includes(address),
+        );
+        if (members.length === 0) {
+          return { ...target, members, status: "skipped" };
+        }
+
+        const simulation = await simulateTransaction(provider, {
+          from:
+            target.route === "safe"
+              ? target.safeAddress!
+              : walletSession.account,
+          to: target.groupAddress,
+          data: encodeAdd(members),
+        });
+        if (!simulation.ok) {
+          return {
+            ...target,
+            members,
+            status: "failed",
+            error: `Simulation failed, nothing was sent: ${simulation.reason}`,
+            networkError: simulation.networkError,
+          };
+        }
+        return { ...target, members };
+      };
+
+      const prepared = await Promise.all(
+        planned.filter((target) => target.status === "pending").map(prepare),
+      );
+      prepared.forEach(updateTarget);
+      const isSendable = (target: GroupTarget) =>
+        results.get(target.groupAddress)?.status === "pending";
+
+      // Directly owned groups, one transaction after another
+      for (const planTarget of plan.direct.filter(isSendable)) {
+        const target = results.get(planTarget.groupAddress)!;
+        updateTarget({ ...target, status: "processing" });
+        try {
+          const groupContract = new ethers.Contract(
+            target.groupAddress,
+            GROUP_ABI,
+            signer,
+          );
+          const tx = await groupContract.trustBatchWithConditions(
+            target.members,
+            expiry,
+          );
+          await tx.wait();
+          updateTarget({ ...target, status: "success", txHash: tx.hash });
+        } catch (error) {
+          console.error("Error adding to group:", error);
+          updateTarget({
+            ...target,
+            status: "failed",
+            error: `Failed to add to group: ${(error as Error).message}`,
+            networkError: isNetworkError(error),
+          });
+        }
+      }
+
+      // Groups sharing an owner Safe, bundled into one MultiSend
+      for (const bundle of plan.safes) {
+        const bundleTargets = bundle.targets
+          .filter(isSendable)
+          .map((target) => results.get(target.groupAddress)!);
+        if (bundleTargets.length === 0) continue;
+
+        bundleTargets.forEach((target) =>
+          updateTarget({ ...target, status: "processing" }),
+        );
+        // Only the members left in each group after dropping existing ones
+        const bundleMembers = Array.from(
+          new Set(bundleTargets.flatMap((target) => target.members)),
+        );
+
+        let result: TxResult;
+        try {
+          const client =
+            safeClient &&
+            bundle.safeAddress.toLowerCase() === safeAddress.toLowerCase()
+              ? safeClient
+              : await createSafeClient({
+                  provider: walletSession.safeProvider as any,
+                  signer: walletSession.safeSigner,
+                  safeAddress: bundle.safeAddress,
+                });
+          result = await sendSafeTransactions(
+            bundleTargets.map((target) => ({
+              to: target.groupAddress,
+              data: encodeAdd(target.members),
+              value: "0",
+            })),
+            {
+              groupAddress: bundleTargets[0].groupAddress,
+              groupName: bundleTargets
+                .map((target) => target.groupName)
+                .join(", "),
+              description: `Add ${bundleMembers.length} ${
+                bundleMembers.length === 1 ? "member" : "members"
+              } to ${bundleTargets.length} ${
+                bundleTargets.length === 1 ? "group" : "groups"
+              }`,
+              action: "group-add",
+              members: bundleMembers,
+              groups: bundleTargets.map((target) => ({
+                groupAddress: target.groupAddress,
+                groupName: target.groupName,
+                members: target.members,
+              })),
+            },
+            {
+              client,
+              address: bundle.safeAddress,
+              threshold: bundle.threshold,
+            },
+          );
+        } catch (error) {
+          console.error("Failed to initialize Safe client:", error);
+          result = {
+            error: `Failed to initialize Safe client: ${
+              (error as Error).message
+            }`,
+            networkError: isNetworkError(error),
+          };
+        }
+
+        bundleTargets.forEach((target) =>
+          updateTarget({
+            ...target,
+            status: result.error
+              ? "failed"
+              : result.txHash
+                ? "success"
+                : "proposed",
+            txHash: result.txHash,
+            safeTxHash: result.safeTxHash,
+            error: result.error,
+            networkError: result.networkError,
+          }),
+        );
+      }
+    } finally {
+      setProcessingGroup(false);
+    }
+
+    const finished = Array.from(results.values());
+    recordLog(
+      finished
+        .filter((target) => target.status !== "skipped")
+        .flatMap((target) =>
+          target.members.map((address) => ({
+            action: "group-add" as const,
+            outcome:
+              target.status === "failed"
+                ? ("failed" as const)
+                : target.status === "proposed"
+                  ? ("proposed" as const)
+                  : ("success" as const),
+            address,
+            groupAddress: target.groupAddress,
+            groupName: target.groupName,
+            context: contextInput || undefined,
+            txHash: target.txHash,
+            safeTxHash: target.safeTxHash,
+            message: target.error,
+          })),
+        ),
+    );
+
+    const summary = summarizeTargets(finished);
+    if (summary) {
+      setErrorInfo(summary);
+      return {
+        error: summary,
+        networkError: finished.some((target) => target.networkError),
+      };
+    }
+    const txHashes = finished.map((target) => target.txHash).filter(Boolean);
+    const safeTxHashes = finished
+      .map((target) => target.safeTxHash)
+      .filter(Boolean);
+    return txHashes.length > 0
+      ? { txHash: txHashes[0] }
+      : { safeTxHash: safeTxHashes[0] };
+  };
+
+  // Revoke group trust by setting the expiry to now (the Hub treats it as untrusted)
+  const removeFromGroup = async (addresses: string[]): Promise<TxResult> => {
+    setTxAction("remove");
+    const result = await sendTrustBatch(
+      addresses,
+      Math.floor(Date.now() / 1000),
+    );
+    logTrustResult("group-remove", addresses, result);
+
+    if (!result.error && selectedGroup && scannedAddress) {
+      setMembership(
+        await checkMembership(selectedGroup.address, scannedAddress),
+      );
+    }
+    return result;
+  };
+
+  // Ask for confirmation before revoking, as removal is destructive
+  const requestRemoval = (address: string) => {
+    setPendingRemoval(address);
+  };
+
+  const confirmRemoval = async () => {
+    if (!pendingRemoval) return;
+    const address = pendingRemoval;
+    setPendingRemoval(null);
+    await removeFromGroup([address]);
+  };
+
+  // Add addresses to the pending members queue (duplicates are dropped)
+  const queueMembers = (addresses: string[]) => {
+    setPendingMembers((queue) => enqueueMembers(queue, addresses));
+  };
+
+  const removeQueuedMember = (address: string) => {
+    setPendingMembers((queue) => dequeueMember(queue, address));
+  };
+
+  const clearLog = () => {
+    clearLogEntries()
+      .then(() => setLogEntries([]))
+      .catch((error) => console.error("Error clearing session log:", error));
+  };
+
+  const clearQueue = () => {
+    setPendingMembers([]);
+    setBatchChunks([]);
+    setSkippedMembers([]);
+  };
+
+  // Submit the queue in chunks, one transaction (or Safe transaction) per chunk
+  const submitQueue = async () => {
+    if (pendingMembers.length === 0 || !canAddToGroup()) return;
+
+    setProcessingBatch(true);
+    setSkippedMembers([]);
+
+    // Drop members the group already trusts before building the chunks (with
+    // several groups, this happens per group for every chunk instead)
+    let members = pendingMembers;
+    if (selectedGroup && targetGroups.length === 1) {
+      try {
+        const memberships = await fetchGroupMemberships(
+          selectedGroup.address,
+          pendingMembers,
+        );
+        const existing = pendingMembers.filter((address) =>
+          memberships.has(address.toLowerCase()),
+        );
+        if (existing.length > 0) {
+          members = pendingMembers.filter(
+            (address) => !existing.includes(address),
+          );
+          setSkippedMembers(existing);
+          recordLog(
+            existing.map((address) => ({
+              action: "group-add",
+              outcome: "skipped",
+              address,
+              groupAddress: selectedGroup.address,
+              groupName: selectedGroup.name,
+              context: contextInput || undefined,
+              message: "Already a member",
+            })),
+          );
+          setPendingMembers((queue) =>
+            queue.filter((address) => !existing.includes(address)),
+          );
+        }
+      } catch (error) {
+        console.error("Error checking queued memberships:", error);
         setErrorInfo(
-          "Transaction created but no transaction hash returned. Check the Safe transaction service for status.",
+          `Could not check existing memberships: ${(error as Error).message}`,
+        );
+        setProcessingBatch(false);
+        return;
+      }
+    }
+
+    const chunks = chunkMembers(members, batchSize);
+    setBatchChunks(chunks);
+
+    const updateChunk = (index: number, update: Partial<BatchChunk>) => {
+      setBatchChunks((current) =>
+        current.map((chunk) =>
+          chunk.index === index ? { ...chunk, ...update } : chunk,
+        ),
+      );
+    };
+
+    try {
+      for (const chunk of chunks) {
+        updateChunk(chunk.index, { status: "processing" });
+        const result = await addToGroup(chunk.members);
+
+        if (result.error) {
+          // Stop at the first failure so no further wallet prompts are fired
+          updateChunk(chunk.index, { status: "failed", error: result.error });
+          break;
+        }
+
+        updateChunk(chunk.index, {
+          status: result.txHash ? "success" : "proposed",
+          txHash: result.txHash,
+          safeTxHash: result.safeTxHash,
+        });
+
+        // Submitted members leave the queue; failed and remaining ones stay
+        setPendingMembers((queue) =>
+          queue.filter((address) => !chunk.members.includes(address)),
         );
       }
+    } finally {
+      setProcessingBatch(false);
+    }
+  };
+
+  // Save a scan locally so it can be replayed once the connection is back
+  const captureScan = (address: string, tab: "invite" | "group") => {
+    setCapturedScans((current) => [
+      ...current,
+      createCapturedScan({
+        address,
+        tab,
+        inviteMode: tab === "invite" ? inviteMode : undefined,
+        groupAddress: tab === "group" ? selectedGroup?.address : undefined,
+        groupName: tab === "group" ? selectedGroup?.name : undefined,
+        context: contextInput || undefined,
+      }),
+    ]);
+    setErrorInfo(
+      "No connection: the scan was saved and can be replayed when you are back online.",
+    );
+  };
+
+  const updateCapturedScans = (
+    ids: string[],
+    update: Partial<CapturedScan>,
+  ) => {
+    setCapturedScans((current) =>
+      current.map((scan) =>
+        ids.includes(scan.id) ? { ...scan, ...update } : scan,
+      ),
+    );
+  };
+
+  const removeCapturedScan = (id: string) => {
+    setCapturedScans((current) => current.filter((scan) => scan.id !== id));
+  };
+
+  const clearCompletedScans = () => {
+    setCapturedScans((current) =>
+      current.filter((scan) => scan.status !== "done"),
+    );
+  };
+
+  // Replay a captured invite scan in the mode it was captured in, so a form
+  // invite never spends Circles. An on-chain invitation that already landed
+  // (e.g. the response was lost) is marked done, not resent.
+  const replayInviteScan = async (scan: CapturedScan) => {
+    if (scan.inviteMode !== "onchain") {
+      if (await inviteAddress(scan.address, scan.context || "", "form")) {
+        updateCapturedScans([scan.id], { status: "done" });
+      }
+      return;
+    }
+
+    const result = await inviteOnChain(
+      scan.address,
+      scan.context || "",
+      scan.id,
+    );
+    if (result.alreadyDone) {
+      updateCapturedScans([scan.id], { status: "done", message: result.error });
+    } else if (!result.error) {
+      updateCapturedScans([scan.id], {
+        status: "done",
+        txHash: result.txHash,
+        safeTxHash: result.safeTxHash,
+        message: result.txHash ? undefined : "Safe proposal created",
+      });
+    } else if (!result.networkError) {
+      updateCapturedScans([scan.id], {
+        status: "failed",
+        message: result.error,
+      });
+    }
+  };
+
+  // Select a group by address, unless the profile (the active one by default)
+  // locks another group
+  const selectGroupByAddress = (
+    groupAddress: string,
+    profile = activeProfile?.profile,
+  ) => {
+    if (
+      profile?.locked.includes("groupAddress") &&
+      profile.settings.groupAddress?.toLowerCase() !==
+        groupAddress.toLowerCase()
+    ) {
+      setErrorInfo(
+        `The group is locked by the session profile "${profile.name}"`,
+      );
+      return;
+    }
+
+    const group = availableGroups.find(
+      (entry) => entry.address.toLowerCase() === groupAddress.toLowerCase(),
+    );
+    if (group) {
+      setSelectedGroup(group);
+      setGroupTargets([]);
+    } else {
+      setErrorInfo(`Group ${groupAddress} is not in the group list`);
+    }
+  };
+
+  // Replay captured group adds for the selected group. Addresses that already
+  // landed on chain (e.g. the response was lost) are marked done, not resent.
+  const replayGroupScans = async () => {
+    if (!selectedGroup || !canAddToGroup()) return;
+
+    const scans = capturedScans.filter(
+      (scan) =>
+        scan.status !== "done" &&
+        scan.tab === "group" &&
+        scan.groupAddress?.toLowerCase() ===
+          selectedGroup.address.toLowerCase(),
+    );
+    if (scans.length === 0) return;
+
+    const idsFor = (addresses: string[]) =>
+      scans
+        .filter((scan) =>
+          addresses.some(
+            (address) => address.toLowerCase() === scan.address.toLowerCase(),
+          ),
+        )
+        .map((scan) => scan.id);
+
+    setReplayingScans(true);
+    try {
+      const addresses = enqueueMembers(
+        [],
+        scans.map((scan) => scan.address),
+      );
+      const memberships = await fetchGroupMemberships(
+        selectedGroup.address,
+        addresses,
+      );
+      const landed = addresses.filter((address) =>
+        memberships.has(address.toLowerCase()),
+      );
+      updateCapturedScans(idsFor(landed), {
+        status: "done",
+        message: "Already a member",
+      });
+
+      const remaining = addresses.filter(
+        (address) => !landed.includes(address),
+      );
+      for (const chunk of chunkMembers(remaining, batchSize)) {
+        const result = await addToGroup(chunk.members);
+        if (result.error) {
+          updateCapturedScans(idsFor(chunk.members), {
+            status: result.networkError ? "queued" : "failed",
+            message: result.error,
+          });
+          break;
+        }
+        updateCapturedScans(idsFor(chunk.members), {
+          status: "done",
+          txHash: result.txHash,
+          safeTxHash: result.safeTxHash,
+          message: result.txHash ? undefined : "Safe proposal created",
+        });
+      }
     } catch (error) {
-      console.error("Error creating/executing Safe transaction:", error);
+      console.error("Error replaying captured scans:", error);
+      setErrorInfo(`Could not replay saved scans: ${(error as Error).message}`);
+    } finally {
+      setReplayingScans(false);
+    }
+  };
+
+  // Add a scanned address to the group, saving it for later on network errors
+  const addScannedToGroup = async (address: string) => {
+    const result = await addToGroup([address]);
+    if (result.networkError) {
+      captureScan(address, "group");
+    }
+  };
+
+  // Add a scanned address to the group unless it is already a member
+  const autoAddToGroup = async (address: string) => {
+    if (!selectedGroup) return;
+
+    // With several groups, existing members are skipped per group
+    if (targetGroups.length > 1) {
+      await addScannedToGroup(address);
+      return;
+    }
+
+    const status = await checkMembership(selectedGroup.address, address);
+    setMembership(status);
+    if (status.state === "unknown" && status.networkError) {
+      captureScan(address, "group");
+      return;
+    }
+    if (status.state === "member") {
+      recordLog([
+        {
+          action: "group-add",
+          outcome: "skipped",
+          address,
+          groupAddress: selectedGroup.address,
+          groupName: selectedGroup.name,
+          context: contextInput || undefined,
+          message: "Already a member",
+        },
+      ]);
+      return;
+    }
+
+    await addScannedToGroup(address);
+  };
+
+  // Function to handle QR code scan result
+  const handleScan = (address: string, format?: PayloadFormat) => {
+    if (continuousScan) {
+      // Each person is only handled once per scanning session
+      if (
+        scanTally.some(
+          (scan) => scan.address.toLowerCase() === address.toLowerCase(),
+        )
+      ) {
+        playScanFeedback("duplicate");
+        return;
+      }
+      playScanFeedback("new");
+    } else {
+      setShowScanner(false);
+    }
+
+    setScannedAddress(address);
+    setScanFormat(format || null);
+    setWalletAddress(address);
+    setErrorInfo(null);
+
+    let action = "Scanned";
+
+    // Auto-execute based on active tab and its toggle
+    if (
+      !isOnline &&
+      activeTab !== "log" &&
+      !(activeTab === "group" && queueScans)
+    ) {
+      // Without a connection, keep the scan (with tab, group and context) for later
+      captureScan(address, activeTab);
+      action = "Saved offline";
+    } else if (activeTab === "invite" && autoInvite) {
+      inviteAddress(address);
+      action = "Inviting";
+    } else if (activeTab === "group" && queueScans) {
+      queueMembers([address]);
+      action = "Queued";
+    } else if (activeTab === "group" && autoGroup && canAddToGroup()) {
+      autoAddChain.current = autoAddChain.current
+        .then(() => autoAddToGroup(address))
+        .catch((error) =>
+          console.error("Error adding scanned address to group:", error),
+        );
+      action = "Adding to group";
+    } else if (activeTab === "group" && continuousScan) {
+      // Without an auto action, collect the line of people in the batch queue
+      queueMembers([address]);
+      action = "Queued";
+    }
+
+    if (continuousScan) {
+      setScanTally((current) => [{ address, action }, ...current]);
+    }
+  };
+
+  const startKiosk = (config: KioskConfig) => {
+    saveKioskConfig(config);
+    setKiosk(config);
+    setKioskOutcome(null);
+    setShowScanner(false);
+    setSharedInvite(null);
+    // The kiosk only ever acts on its own group
+    setExtraGroupIds([]);
+    setGroupTargets([]);
+  };
+
+  const unlockKiosk = () => {
+    if (!kiosk) return;
+    const config = { ...kiosk, active: false };
+    saveKioskConfig(config);
+    setKiosk(config);
+    resetKiosk();
+    exitFullscreen();
+  };
+
+  // Clear the last person's result for the next one
+  const resetKiosk = () => {
+    setKioskOutcome(null);
+    setSharedInvite(null);
+    setScannedAddress(null);
+    setWalletAddress("");
+    setErrorInfo(null);
+    setTxHash(null);
+  };
+
+  // Run the kiosk's single action for a newcomer who scanned themselves
+  const runKioskAction = async (
+    config: KioskConfig,
+    address: string,
+  ): Promise<KioskOutcome> => {
+    if (config.action === "invite") {
+      return showInviteQrCode(address)
+        ? { state: "invite", address }
+        : {
+            state: "failed",
+            address,
+            error: "Could not create the invitation link",
+          };
+    }
 
-      // Provide more detailed error information based on the type of error
-      if (typeof error === "object" && error !== null) {
-        const errorObj = error as any;
-        if (errorObj.reason) {
-          setErrorInfo(`Transaction error: ${errorObj.reason}`);
-        } else if (errorObj.message) {
-          setErrorInfo(
-            `Failed to execute Safe transaction: ${errorObj.message}`,
-          );
-        } else {
-          setErrorInfo(
-            `Failed to execute Safe transaction: ${JSON.stringify(error)}`,
-          );
-        }
-      } else {
-        setErrorInfo(`Failed to execute Safe transaction: ${String(error)}`);
-      }
-    } finally {
-      setProcessingGroup(false);
+    if (config.approval) {
+      queueMembers([address]);
+      recordLog([
+        {
+          action: "group-add",
+          outcome: "queued",
+          address,
+          groupAddress: selectedGroup?.address,
+          groupName: selectedGroup?.name,
+          context: contextInput || undefined,
+          message: "Queued at the kiosk for operator approval",
+        },
+      ]);
+      return { state: "queued", address };
     }
-  };
 
-  // Main function to add address to group (routes to the appropriate method)
-  const addToGroup = async (address: string) => {
-    if (ownerMode === "direct") {
-      await addToGroupDirect(address);
-    } else {
-      await addToGroupViaSafe(address);
+    if (!isOnline) {
+      captureScan(address, "group");
+      return { state: "saved", address };
+    }
+    if (!selectedGroup || !canAddToGroup()) {
+      return {
+        state: "failed",
+        address,
+        error: "The kiosk is not ready to add members",
+      };
     }
-  };
 
-  // Function to handle QR code scan result
-  const handleScan = (address: string) => {
-    setScannedAddress(address);
-    setWalletAddress(address);
-    setShowScanner(false);
-    setErrorInfo(null);
+    const status = await checkMembership(selectedGroup.address, address);
+    if (status.state === "member") return { state: "member", address };
+    if (status.state === "unknown" && status.networkError) {
+      captureScan(address, "group");
+      return { state: "saved", address };
+    }
 
-    // Auto-execute based on active tab and its toggle
-    if (activeTab === "invite" && autoInvite) {
-      createTallyUrl(address);
-    } else if (activeTab === "group" && autoGroup && canAddToGroup()) {
-      addToGroup(address);
+    const result = await addToGroup([address]);
+    if (result.networkError) {
+      captureScan(address, "group");
+      return { state: "saved", address };
     }
+    if (result.error) {
+      return { state: "failed", address, error: result.error };
+    }
+    // Safes with more than one required signature only propose the add
+    return { state: result.txHash ? "added" : "proposed", address };
+  };
+
+  const handleKioskScan = async (address: string) => {
+    // One person at a time: scans are ignored while a result is shown
+    if (!kiosk || kioskOutcome) return;
+    playScanFeedback("new");
+    setKioskOutcome({ state: "working", address });
+    setKioskOutcome(await runKioskAction(kiosk, address));
   };
 
   const handleCloseScanner = () => {
@@ -736,6 +2713,8 @@ function App() {
     setErrorInfo(null);
     setTxHash(null);
     setScannedAddress(null);
+    setScanFormat(null);
+    setScanTally([]);
     setShowScanner(true);
   };
 
@@ -744,12 +2723,22 @@ function App() {
     const value = e.target.value;
     setWalletAddress(value);
 
-    // If the value is a valid Ethereum address, set it as the scanned address
-    if (/^0x[a-fA-F0-9]{40}$/i.test(value)) {
-      setScannedAddress(value);
-    } else if (value === "") {
-      // Clear scanned address if input is empty
-      setScannedAddress(null);
+    // Accept pasted payment or profile links as well as plain addresses
+    const parsed = parseQrPayload(value);
+    if (parsed.ok) {
+      setScannedAddress(parsed.address);
+      setScanFormat(parsed.format);
+      setErrorInfo(null);
+    } else {
+      setScanFormat(null);
+      if (value === "") {
+        // Clear scanned address if input is empty
+        setScannedAddress(null);
+      } else if (parsed.format) {
+        // A recognised format that was rejected (wrong chain, bad checksum)
+        setScannedAddress(null);
+        setErrorInfo(parsed.error);
+      }
     }
   };
 
@@ -762,6 +2751,14 @@ function App() {
     }
   };
 
+  const toggleExtraGroup = (groupId: string) => {
+    setExtraGroupIds((current) =>
+      current.includes(groupId)
+        ? current.filter((id) => id !== groupId)
+        : [...current, groupId],
+    );
+  };
+
   // Get current status text based on ownership status
   const getOwnershipStatusText = () => {
     if (!walletConnected) {
@@ -772,41 +2769,62 @@ function App() {
       return "Please switch to Gnosis Chain for full functionality";
     }
 
-    if (ownerMode === "direct") {
-      return isDirectOwner
-        ? "✓ Your wallet is the group owner"
-        : "⚠️ Your wallet may not be the group owner";
-    } else {
-      // Safe mode
-      if (!safeClient) {
-        return "⚠️ Safe client not initialized";
-      }
+    if (!ownership || ownership.status === "checking") {
+      return "Checking group ownership...";
+    }
 
-      if (!isSafeGroupOwner) {
-        return "⚠️ The Safe may not be the group owner";
-      }
+    switch (ownership.status) {
+      case "unknown":
+        return `⚠️ Ownership unknown: ${ownership.reason}`;
+      case "not-owner":
+        return `✗ Your wallet does not control this group (owner: ${ownership.groupOwner})`;
+    }
 
-      if (!isSafeOwner) {
-        return "⚠️ You may not be an owner of the Safe";
-      }
+    const route = ownership.route;
+    if (route.kind === "nested-safe") {
+      return `⚠️ Your wallet controls this group only through nested Safes (${route.path.join(
+        " ← ",
+      )}). Use the parent Safe ${route.path[route.path.length - 1]} in the Safe app to sign for the group owner.`;
+    }
+
+    if (route.kind === "direct") {
+      return ownerMode === "direct"
+        ? "✓ Your wallet is the group owner"
+        : "⚠️ Your wallet owns this group directly. Switch to Direct Owner.";
+    }
 
-      return `✓ Safe ownership confirmed (Threshold: ${safeThreshold})`;
+    if (ownerMode !== "safe") {
+      return "⚠️ This group is owned by a Safe you are an owner of. Switch to Safe Owner.";
     }
+    if (!safeClient) {
+      return "⚠️ Safe client not initialized";
+    }
+    return `✓ Safe ownership confirmed (Threshold: ${route.threshold})`;
   };
 
-  // Check if user can add to group based on current ownership status
+  // Check if user can add to group based on the resolved ownership
   const canAddToGroup = () => {
     if (!walletConnected) return false;
     if (!isCorrectNetwork) return false;
     if (!selectedGroup) return false;
-
-    if (ownerMode === "safe") {
-      return !!safeClient && isSafeOwner && isSafeGroupOwner;
+    if (ownership?.status !== "owner") return false;
+
+    switch (ownership.route.kind) {
+      case "direct":
+        return ownerMode === "direct";
+      case "safe":
+        return ownerMode === "safe" && !!safeClient;
+      default:
+        return false;
     }
-
-    return true;
   };
 
+  // Whether the connected account can sign for the current Safe
+  const isSafeSigner = () =>
+    ownership?.status === "owner" &&
+    ownership.route.kind === "safe" &&
+    ownership.route.safeAddress.toLowerCase() === safeAddress.toLowerCase();
+
   // Render the Invite Tab Content
   const renderInviteTab = () => {
     return (
@@ -817,10 +2835,62 @@ function App() {
             placeholder="Context (optional)"
             value={contextInput}
             onChange={handleContextChange}
+            disabled={isLocked("context")}
             className="wallet-input"
           />
         </div>
 
+        {/* Invite Mode Toggle */}
+        <div className="owner-mode-toggle">
+          <div className="flex justify-center gap-4">
+            <button
+              className={`mode-button ${inviteMode === "form" ? "active" : ""}`}
+              onClick={() => setInviteMode("form")}
+              disabled={isLocked("inviteMode")}
+            >
+              Invitation Form
+            </button>
+            <button
+              className={`mode-button ${inviteMode === "onchain" ? "active" : ""}`}
+              onClick={() => setInviteMode("onchain")}
+              disabled={isLocked("inviteMode")}
+            >
+              On-chain Invite
+            </button>
+          </div>
+        </div>
+
+        {inviteMode === "form" && (
+          <InviteTemplateSettings
+            templates={inviteTemplates}
+            selected={inviteTemplate}
+            session={inviteSession}
+            onSelect={selectInviteTemplate}
+            onSessionChange={updateInviteSession}
+            onSaveTemplates={updateInviteTemplates}
+          />
+        )}
+
+        {inviteMode === "onchain" && (
+          <>
+            {renderOwnerModeToggle("Connected Wallet", "Via Safe")}
+            {renderWalletConnection()}
+            {walletConnected && (
+              <p className="toggle-help-text">
+                Inviter:{" "}
+                {ownerMode === "direct"
+                  ? connectedAccount || "connected wallet"
+                  : safeAddress}
+              </p>
+            )}
+            <p className="toggle-help-text">
+              The inviter trusts the newcomer, who can then register from their
+              wallet using this invitation. The invitation cost is burnt from
+              the inviter's personal Circles when they register.
+            </p>
+          </>
+        )}
+
         <div className="auto-toggle-container">
           <div className="auto-execute-toggle">
             <span className="toggle-label">Auto-Invite:</span>
@@ -829,6 +2899,7 @@ function App() {
                 type="checkbox"
                 checked={autoInvite}
                 onChange={() => setAutoInvite(!autoInvite)}
+                disabled={isLocked("autoInvite")}
               />
               <span className="toggle-slider"></span>
             </label>
@@ -837,17 +2908,550 @@ function App() {
 
         {scannedAddress && (
           <div className="address-display">
+            {/* Final form link, shown before it is opened or shared */}
+            {inviteMode === "form" && (
+              <div className="invite-preview">
+                <p className="toggle-help-text">Invitation link:</p>
+                <p className="break-all text-xs">
+                  {buildInviteUrl(scannedAddress)}
+                </p>
+              </div>
+            )}
             <div className="action-buttons-container">
+              {inviteMode === "form" ? (
+                <>
+                  <button
+                    onClick={() => showInviteQrCode(scannedAddress)}
+                    className={`action-button ${
+                      inviteSession.delivery === "qr"
+                        ? "tally-button"
+                        : "queue-button"
+                    }`}
+                  >
+                    Show Invite QR
+                  </button>
+                  <button
+                    onClick={() => openInviteForm(scannedAddress)}
+                    className={`action-button ${
+                      inviteSession.delivery === "open"
+                        ? "tally-button"
+                        : "queue-button"
+                    }`}
+                    disabled={processingTally}
+                  >
+                    {processingTally ? "Opening..." : "Open on This Device"}
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => inviteOnChain(scannedAddress)}
+                  className="action-button tally-button"
+                  disabled={
+                    processingInvite ||
+                    !walletConnected ||
+                    !isCorrectNetwork ||
+                    (ownerMode === "safe" && !safeClient)
+                  }
+                >
+                  {processingInvite
+                    ? "Inviting..."
+                    : ownerMode === "direct"
+                      ? "Invite to Circles"
+                      : "Invite via Safe"}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Invitation success message */}
+        {txHash && txAction === "invite" && renderTxSuccess()}
+
+        {/* Safe proposals awaiting signatures */}
+        {inviteMode === "onchain" &&
+          safeProposals.length > 0 &&
+          renderSafeProposals()}
+      </div>
+    );
+  };
+
+  // Render the success message for the last transaction
+  const renderTxSuccess = () => {
+    return (
+      <div className="success-box">
+        <h3>
+          {txAction === "invite"
+            ? "✅ Invitation Sent"
+            : txAction === "add"
+              ? "✅ Address Added to Group"
+              : "✅ Address Removed from Group"}
+        </h3>
+        <p className="break-all text-xs">{txHash}</p>
+        <a
+          href={`https://gnosisscan.io/tx/${txHash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="view-tx-button"
+        >
+          View Transaction
+        </a>
+      </div>
+    );
+  };
+
+  // Render the direct/Safe owner mode toggle
+  const renderOwnerModeToggle = (directLabel: string, safeLabel: string) => {
+    return (
+      <div className="owner-mode-toggle">
+        <div className="flex justify-center gap-4">
+          <button
+            className={`mode-button ${ownerMode === "direct" ? "active" : ""}`}
+            onClick={() => setOwnerMode("direct")}
+            disabled={isLocked("ownerMode")}
+          >
+            {directLabel}
+          </button>
+          <button
+            className={`mode-button ${ownerMode === "safe" ? "active" : ""}`}
+            onClick={() => setOwnerMode("safe")}
+            disabled={isLocked("ownerMode")}
+          >
+            {safeLabel}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Render the wallet connection status or connect button
+  const renderWalletConnection = () => {
+    const connectors = walletConnectors.filter((connector) =>
+      connector.available(),
+    );
+
+    return (
+      <div className="wallet-connection">
+        {walletConnected && walletSession ? (
+          <div className="text-center">
+            <p className="text-green-600 font-bold">✓ Wallet Connected</p>
+            <p className="toggle-help-text">
+              {
+                walletConnectors.find(
+                  (connector) => connector.id === walletSession.connectorId,
+                )?.name
+              }
+              : {walletSession.account}
+            </p>
+            <button onClick={disconnectWallet} className="queue-clear-button">
+              Disconnect
+            </button>
+          </div>
+        ) : connectors.length === 0 ? (
+          <p className="toggle-help-text">
+            No wallet available. Open this page in a wallet app's browser or
+            install a browser wallet.
+          </p>
+        ) : (
+          <div className="wallet-connectors">
+            {connectors.map((connector) => (
               <button
-                onClick={() => createTallyUrl(scannedAddress)}
-                className="action-button tally-button"
-                disabled={processingTally}
+                key={connector.id}
+                onClick={() => connectWallet(connector)}
+                disabled={isLoading}
+                className="connect-wallet-button"
+                title={connector.description}
               >
-                {processingTally ? "Opening..." : "Open Invitation Form"}
+                {isLoading ? "Connecting..." : `Connect ${connector.name}`}
               </button>
-            </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Render the trust expiry picker with a preview of the value sent on chain
+  const renderExpiryPicker = () => {
+    const resolved = resolveExpiry(expirySetting);
+
+    return (
+      <div className="expiry-picker">
+        <div className="expiry-controls">
+          <label className="toggle-label" htmlFor="expiry-mode">
+            Membership expiry:
+          </label>
+          <select
+            id="expiry-mode"
+            value={expirySetting.mode}
+            onChange={(e) =>
+              updateExpirySetting({ mode: e.target.value as ExpiryMode })
+            }
+            className="expiry-select"
+          >
+            <option value="never">Never</option>
+            <option value="date">Fixed date</option>
+            <option value="duration">Duration</option>
+          </select>
+
+          {expirySetting.mode === "date" && (
+            <input
+              type="date"
+              value={expirySetting.date}
+              onChange={(e) => updateExpirySetting({ date: e.target.value })}
+              className="expiry-input"
+            />
+          )}
+
+          {expirySetting.mode === "duration" && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={expirySetting.durationAmount}
+                onChange={(e) =>
+                  updateExpirySetting({
+                    durationAmount: parseInt(e.target.value, 10) || 0,
+                  })
+                }
+                className="expiry-input expiry-amount"
+              />
+              <select
+                value={expirySetting.durationUnit}
+                onChange={(e) =>
+                  updateExpirySetting({
+                    durationUnit: e.target.value as DurationUnit,
+                  })
+                }
+                className="expiry-select"
+              >
+                <option value="hours">hours</option>
+                <option value="days">days</option>
+                <option value="weeks">weeks</option>
+                <option value="months">months</option>
+              </select>
+            </>
+          )}
+        </div>
+
+        {"error" in resolved ? (
+          <p className="expiry-preview invalid-expiry">{resolved.error}</p>
+        ) : (
+          <p className="expiry-preview">
+            {resolved.expiry >= NEVER_EXPIRES
+              ? "Never expires"
+              : `Expires ${new Date(resolved.expiry * 1000).toLocaleString()}`}{" "}
+            <span className="expiry-raw">(uint96: {resolved.expiry})</span>
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  // Estimated cost of the add, or why it would fail
+  const renderAddSimulation = () => {
+    if (simulatingAdd) {
+      return <p className="membership-status">Simulating transaction...</p>;
+    }
+    if (!addSimulation) return null;
+
+    return addSimulation.ok ? (
+      <p className="membership-status">
+        Estimated cost: {formatCost(addSimulation.cost)} (
+        {addSimulation.gasLimit.toString()} gas
+        {ownerMode === "safe" ? ", plus Safe overhead" : ""})
+      </p>
+    ) : (
+      <p className="error-message">Simulation failed: {addSimulation.reason}</p>
+    );
+  };
+
+  // Render the membership of the scanned address in the selected group
+  const renderMembershipStatus = () => {
+    if (!membership) return null;
+
+    switch (membership.state) {
+      case "checking":
+        return <p className="membership-status">Checking membership...</p>;
+      case "not-member":
+        return (
+          <p className="membership-status">Not yet a member of this group</p>
+        );
+      case "member":
+        return (
+          <p className="membership-status member">
+            Already a member (since {formatTimestamp(membership.since)}, expires{" "}
+            {formatTimestamp(membership.expiry)})
+          </p>
+        );
+      case "unknown":
+        return (
+          <p className="membership-status unknown">
+            Could not check membership: {membership.error}
+          </p>
+        );
+    }
+  };
+
+  // Render the pending members queue and batch progress
+  const renderQueuePanel = () => {
+    const chunkCount = Math.ceil(
+      pendingMembers.length / Math.max(1, batchSize),
+    );
+
+    return (
+      <div className="queue-panel">
+        <div className="queue-header">
+          <h3>Pending Members ({pendingMembers.length})</h3>
+          <button
+            onClick={clearQueue}
+            disabled={processingBatch}
+            className="queue-clear-button"
+          >
+            Clear
+          </button>
+        </div>
+
+        <ul className="queue-list">
+          {pendingMembers.map((address) => (
+            <li key={address} className="queue-item">
+              <span className="queue-address">{address}</span>
+              <button
+                onClick={() => removeQueuedMember(address)}
+                disabled={processingBatch}
+                className="queue-remove-button"
+                aria-label={`Remove ${address}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="queue-controls">
+          <label className="toggle-label" htmlFor="batch-size">
+            Batch size:
+          </label>
+          <input
+            id="batch-size"
+            type="number"
+            min={1}
+            value={batchSize}
+            onChange={(e) =>
+              setBatchSize(Math.max(1, parseInt(e.target.value, 10) || 1))
+            }
+            disabled={processingBatch}
+            className="batch-size-input"
+          />
+        </div>
+
+        {skippedMembers.length > 0 && (
+          <p className="queue-skipped">
+            Skipped {skippedMembers.length} already{" "}
+            {skippedMembers.length === 1 ? "member" : "members"}:{" "}
+            {skippedMembers.join(", ")}
+          </p>
+        )}
+
+        {pendingMembers.length > 0 && (
+          <div className="action-buttons-container">
+            <button
+              onClick={submitQueue}
+              disabled={processingBatch || !canAddToGroup()}
+              className="action-button group-button"
+            >
+              {processingBatch
+                ? "Submitting..."
+                : `Submit ${pendingMembers.length} in ${chunkCount} ${
+                    chunkCount === 1 ? "transaction" : "transactions"
+                  }${
+                    targetGroups.length > 1
+                      ? ` to ${targetGroups.length} groups`
+                      : ""
+                  }`}
+            </button>
           </div>
         )}
+
+        {/* Per-chunk progress */}
+        {batchChunks.length > 0 && (
+          <ul className="batch-progress">
+            {batchChunks.map((chunk) => (
+              <li
+                key={chunk.index}
+                className={`batch-chunk batch-chunk-${chunk.status}`}
+              >
+                <span>
+                  Batch {chunk.index + 1}/{batchChunks.length} (
+                  {chunk.members.length} members): {chunk.status}
+                </span>
+                {chunk.txHash && (
+                  <a
+                    href={`https://gnosisscan.io/tx/${chunk.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    View Transaction
+                  </a>
+                )}
+                {chunk.safeTxHash && (
+                  <span className="break-all text-xs">
+                    Safe TX: {chunk.safeTxHash}
+                  </span>
+                )}
+                {chunk.error && (
+                  <span className="batch-chunk-error">{chunk.error}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  // Render the extra groups that adds also go to
+  const renderExtraGroups = () => {
+    const otherGroups = availableGroups.filter(
+      (group) => group.id !== selectedGroup?.id,
+    );
+    if (otherGroups.length === 0) return null;
+
+    return (
+      <details className="extra-groups">
+        <summary>
+          Also add to other groups
+          {targetGroups.length > 1 && ` (${targetGroups.length - 1} selected)`}
+        </summary>
+        {otherGroups.map((group) => (
+          <label key={group.id} className="extra-group-option">
+            <input
+              type="checkbox"
+              checked={extraGroupIds.includes(group.id)}
+              onChange={() => toggleExtraGroup(group.id)}
+              disabled={processingGroup || processingBatch}
+            />
+            {group.name}
+          </label>
+        ))}
+        <p className="toggle-help-text">
+          New members get the expiry chosen above in every group. Groups owned
+          by the same Safe are sent as one Safe transaction; groups you own
+          directly get one transaction each.
+        </p>
+      </details>
+    );
+  };
+
+  // Render the outcome of the last multi-group add
+  const renderGroupTargets = () => {
+    return (
+      <ul className="batch-progress">
+        {groupTargets.map((target) => (
+          <li
+            key={target.groupAddress}
+            className={`batch-chunk batch-chunk-${target.status}`}
+          >
+            <span>
+              {target.groupName}
+              {target.route === "safe" && " (Safe)"}:{" "}
+              {target.status === "skipped" ? "already a member" : target.status}
+            </span>
+            {target.txHash && (
+              <a
+                href={`https://gnosisscan.io/tx/${target.txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                View Transaction
+              </a>
+            )}
+            {target.safeTxHash && !target.txHash && (
+              <span className="break-all text-xs">
+                Safe TX: {target.safeTxHash}
+              </span>
+            )}
+            {target.error && (
+              <span className="batch-chunk-error">{target.error}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  // Render the Safe proposals created this session
+  const renderSafeProposals = () => {
+    return (
+      <div className="proposals-panel">
+        <h3>Safe Proposals</h3>
+        <ul className="proposal-list">
+          {safeProposals.map((proposal) => {
+            const isCurrentSafe =
+              proposal.safeAddress.toLowerCase() === safeAddress.toLowerCase();
+            const signed =
+              !!connectedAccount && hasSigned(proposal, connectedAccount);
+            const ready = proposal.confirmations.length >= proposal.threshold;
+
+            return (
+              <li
+                key={proposal.safeTxHash}
+                className={`proposal-item proposal-${proposal.status}`}
+              >
+                <div className="proposal-summary">
+                  <strong>{proposal.description}</strong> in{" "}
+                  {proposal.groupName}
+                </div>
+                <div className="proposal-meta">
+                  Signatures: {proposal.confirmations.length}/
+                  {proposal.threshold} · {proposal.status}
+                </div>
+
+                {proposal.txHash ? (
+                  <a
+                    href={`https://gnosisscan.io/tx/${proposal.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="break-all text-xs"
+                  >
+                    {proposal.txHash}
+                  </a>
+                ) : (
+                  <span className="break-all text-xs">
+                    Safe TX: {proposal.safeTxHash}
+                  </span>
+                )}
+
+                {proposal.error && (
+                  <span className="batch-chunk-error">{proposal.error}</span>
+                )}
+
+                {proposal.status === "pending" && isCurrentSafe && (
+                  <div className="proposal-actions">
+                    <button
+                      onClick={() => confirmSafeProposal(proposal.safeTxHash)}
+                      disabled={
+                        !safeClient || !isSafeSigner() || (signed && !ready)
+                      }
+                      className="action-button group-button"
+                    >
+                      {ready ? "Execute" : signed ? "Signed" : "Confirm"}
+                    </button>
+                    <button
+                      onClick={() => refreshSafeProposal(proposal.safeTxHash)}
+                      disabled={!safeClient}
+                      className="action-button cancel-button"
+                    >
+                      Refresh
+                    </button>
+                  </div>
+                )}
+                {proposal.status === "executing" && (
+                  <div className="proposal-meta">Waiting for wallet...</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
       </div>
     );
   };
@@ -866,7 +3470,7 @@ function App() {
               value={selectedGroup?.id || ""}
               onChange={handleGroupChange}
               className="group-select-dropdown"
-              disabled={loadingGroups}
+              disabled={loadingGroups || isLocked("groupAddress")}
             >
               {availableGroups.map((group) => (
                 <option key={group.id} value={group.id}>
@@ -876,16 +3480,49 @@ function App() {
               ))}
             </select>
           )}
+          <button
+            onClick={refreshGroups}
+            disabled={refreshingGroups}
+            className="queue-clear-button"
+          >
+            {refreshingGroups ? "Refreshing..." : "Refresh groups"}
+          </button>
+          {selectedGroup && (
+            <button
+              onClick={() => setShowGroupDashboard(!showGroupDashboard)}
+              className="queue-clear-button"
+            >
+              {showGroupDashboard ? "Hide members" : "Show members"}
+            </button>
+          )}
         </div>
 
+        {/* Members of the selected group */}
+        {selectedGroup && showGroupDashboard && (
+          <GroupDashboard
+            group={selectedGroup}
+            rpc={circlesRpc}
+            refreshKey={txHash}
+          />
+        )}
+
+        {/* Trust expiry for new members */}
+        {selectedGroup && renderExpiryPicker()}
+
+        {/* Further groups to add members to */}
+        {selectedGroup && renderExtraGroups()}
+
         {/* Ownership Status */}
         {walletConnected && (
           <div
             className={`ownership-status ${
-              !isCorrectNetwork
-                ? "warning"
-                : canAddToGroup()
-                  ? "success"
+              canAddToGroup()
+                ? "success"
+                : !isCorrectNetwork ||
+                    !ownership ||
+                    ownership.status === "checking" ||
+                    ownership.status === "unknown"
+                  ? "warning"
                   : "error"
             }`}
           >
@@ -894,39 +3531,10 @@ function App() {
         )}
 
         {/* Owner Mode Toggle */}
-        <div className="owner-mode-toggle">
-          <div className="flex justify-center gap-4">
-            <button
-              className={`mode-button ${ownerMode === "direct" ? "active" : ""}`}
-              onClick={() => setOwnerMode("direct")}
-            >
-              Direct Owner
-            </button>
-            <button
-              className={`mode-button ${ownerMode === "safe" ? "active" : ""}`}
-              onClick={() => setOwnerMode("safe")}
-            >
-              Safe Owner
-            </button>
-          </div>
-        </div>
+        {renderOwnerModeToggle("Direct Owner", "Safe Owner")}
 
         {/* Wallet Connection Section */}
-        <div className="wallet-connection">
-          {walletConnected ? (
-            <div className="text-center">
-              <p className="text-green-600 font-bold">✓ Wallet Connected</p>
-            </div>
-          ) : (
-            <button
-              onClick={connectWallet}
-              disabled={isLoading}
-              className="connect-wallet-button"
-            >
-              {isLoading ? "Connecting..." : "Connect Wallet"}
-            </button>
-          )}
-        </div>
+        {renderWalletConnection()}
 
         {/* Auto-Group Toggle */}
         <div className="auto-toggle-container">
@@ -937,7 +3545,19 @@ function App() {
                 type="checkbox"
                 checked={autoGroup}
                 onChange={() => setAutoGroup(!autoGroup)}
-                disabled={!canAddToGroup()}
+                disabled={!canAddToGroup() || isLocked("autoGroup")}
+              />
+              <span className="toggle-slider"></span>
+            </label>
+          </div>
+          <div className="auto-execute-toggle">
+            <span className="toggle-label">Queue Scans:</span>
+            <label className="toggle-switch">
+              <input
+                type="checkbox"
+                checked={queueScans}
+                onChange={() => setQueueScans(!queueScans)}
+                disabled={isLocked("queueScans")}
               />
               <span className="toggle-slider"></span>
             </label>
@@ -948,7 +3568,7 @@ function App() {
         {walletConnected && !isCorrectNetwork && (
           <div className="network-warning">
             <button
-              onClick={switchToGnosisChain}
+              onClick={() => switchToGnosisChain()}
               className="switch-network-button"
             >
               Switch to Gnosis Chain
@@ -958,12 +3578,15 @@ function App() {
         {/* Display address and action buttons */}
         {scannedAddress && (
           <div className="address-display">
+            {renderMembershipStatus()}
+            {renderAddSimulation()}
             <div className="action-buttons-container">
               <button
-                onClick={() => addToGroup(scannedAddress)}
+                onClick={() => addScannedToGroup(scannedAddress)}
                 disabled={
                   !walletConnected ||
                   processingGroup ||
+                  (addSimulation !== null && !addSimulation.ok) ||
                   !isCorrectNetwork ||
                   (ownerMode === "safe" && !safeClient) ||
                   !selectedGroup
@@ -972,42 +3595,166 @@ function App() {
               >
                 {processingGroup
                   ? "Processing..."
-                  : ownerMode === "direct"
-                    ? "Add to Group"
-                    : "Add via Safe"}
+                  : targetGroups.length > 1
+                    ? `Add to ${targetGroups.length} Groups`
+                    : ownerMode === "direct"
+                      ? "Add to Group"
+                      : "Add via Safe"}
+              </button>
+              <button
+                onClick={() => queueMembers([scannedAddress])}
+                disabled={processingBatch}
+                className="action-button queue-button"
+              >
+                Add to Queue
               </button>
+              {membership?.state !== "not-member" && (
+                <button
+                  onClick={() => requestRemoval(scannedAddress)}
+                  disabled={
+                    !canAddToGroup() || processingGroup || !!pendingRemoval
+                  }
+                  className="action-button remove-button"
+                >
+                  Remove from Group
+                </button>
+              )}
             </div>
           </div>
         )}
 
-        {/* Transaction success message */}
-        {txHash && (
-          <div className="success-box">
-            <h3>✅ Address Added to Group</h3>
-            <p className="break-all text-xs">{txHash}</p>
-            <a
-              href={`https://gnosisscan.io/tx/${txHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="view-tx-button"
+        {/* Per-group outcome of multi-group adds */}
+        {groupTargets.length > 0 && renderGroupTargets()}
+
+        {/* Removal confirmation */}
+        {pendingRemoval && selectedGroup && (
+          <div className="confirm-box">
+            <h3>Remove member?</h3>
+            <p>
+              This revokes the trust of <strong>{selectedGroup.name}</strong>{" "}
+              in:
+            </p>
+            <p className="break-all text-xs">{pendingRemoval}</p>
+            <div className="action-buttons-container">
+              <button
+                onClick={confirmRemoval}
+                className="action-button remove-button"
+              >
+                {ownerMode === "direct"
+                  ? "Confirm Removal"
+                  : "Propose via Safe"}
+              </button>
+              <button
+                onClick={() => setPendingRemoval(null)}
+                className="action-button cancel-button"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Safe proposals awaiting signatures */}
+        {safeProposals.length > 0 && renderSafeProposals()}
+        {ownerMode === "safe" && safeClient && safeThreshold > 1 && (
+          <div className="action-buttons-container">
+            <button
+              onClick={loadPendingProposals}
+              className="action-button cancel-button"
             >
-              View Transaction
-            </a>
+              Load Pending Safe Proposals
+            </button>
           </div>
         )}
+
+        {/* Pending members queue */}
+        {(pendingMembers.length > 0 ||
+          batchChunks.length > 0 ||
+          skippedMembers.length > 0) &&
+          renderQueuePanel()}
+
+        {/* Transaction success message */}
+        {txHash && txAction !== "invite" && renderTxSuccess()}
       </div>
     );
   };
 
+  // The kiosk replaces the whole interface until the operator unlocks it
+  if (kiosk?.active) {
+    return (
+      <KioskScreen
+        config={kiosk}
+        outcome={kioskOutcome}
+        invite={sharedInvite}
+        pendingCount={pendingMembers.length}
+        onScan={handleKioskScan}
+        onReset={resetKiosk}
+        onUnlock={unlockKiosk}
+      />
+    );
+  }
+
   return (
     <div className="App">
       <h1>Circles Onboarding Helper</h1>
 
+      {/* Active organization */}
+      <OrgSettings
+        config={orgConfig}
+        source={orgState.source}
+        orgName={orgName}
+        onSave={(settings) => applyOrgSettings(settings)}
+        onReset={() => applyOrgSettings(null)}
+      />
+
+      {/* Event configuration */}
+      <SessionProfiles
+        profiles={sessionProfiles}
+        active={activeProfile}
+        loadError={profileStartup.error}
+        onApply={applySessionProfile}
+        onSaveCurrent={saveCurrentAsProfile}
+        onUpdateActive={updateActiveProfile}
+        onDelete={deleteProfile}
+        onLeave={leaveProfile}
+        onResolveSuggested={resolveSuggestedProfile}
+        onSign={signer ? (message) => signer.signMessage(message) : undefined}
+      />
+
+      {/* Self-service kiosk */}
+      <KioskSetup
+        config={kiosk}
+        defaultAction={activeTab === "group" ? "group" : "invite"}
+        group={selectedGroup}
+        template={inviteTemplate}
+        onStart={startKiosk}
+      />
+
+      {/* Invitation link for the newcomer's own phone */}
+      {sharedInvite && (
+        <InviteQrOverlay
+          link={sharedInvite}
+          onClose={() => setSharedInvite(null)}
+        />
+      )}
+
       {/* Main scan button - always visible at the top */}
       <div className="scan-button-container">
         <button onClick={handleOpenScanner} className="scan-button">
           Scan QR Code
         </button>
+        <div className="auto-execute-toggle">
+          <span className="toggle-label">Continuous Scanning:</span>
+          <label className="toggle-switch">
+            <input
+              type="checkbox"
+              checked={continuousScan}
+              onChange={() => setContinuousScan(!continuousScan)}
+              disabled={isLocked("continuousScan")}
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
       </div>
 
       {/* Tab Navigation */}
@@ -1016,15 +3763,24 @@ function App() {
           <button
             className={`tab-button ${activeTab === "invite" ? "active" : ""}`}
             onClick={() => setActiveTab("invite")}
+            disabled={isLocked("tab") && activeTab !== "invite"}
           >
             Invite
           </button>
           <button
             className={`tab-button ${activeTab === "group" ? "active" : ""}`}
             onClick={() => setActiveTab("group")}
+            disabled={isLocked("tab") && activeTab !== "group"}
           >
             Add to Group
           </button>
+          <button
+            className={`tab-button ${activeTab === "log" ? "active" : ""}`}
+            onClick={() => setActiveTab("log")}
+            disabled={isLocked("tab") && activeTab !== "log"}
+          >
+            Log
+          </button>
         </div>
       </div>
 
@@ -1034,7 +3790,11 @@ function App() {
           onScan={handleScan}
           onClose={handleCloseScanner}
           debug={false}
+          continuous={continuousScan}
+          tally={scanTally}
         />
+      ) : activeTab === "log" ? (
+        <SessionLog entries={logEntries} onClear={clearLog} />
       ) : (
         <>
           {/* Manual address input field */}
@@ -1046,11 +3806,37 @@ function App() {
               onChange={handleAddressChange}
               className="wallet-input"
             />
+            {scannedAddress && scanFormat && (
+              <p className="toggle-help-text">
+                Detected: {FORMAT_LABELS[scanFormat]}
+              </p>
+            )}
           </div>
 
           {/* Display any errors */}
           {errorInfo && <p className="error-message">{errorInfo}</p>}
 
+          {/* Profile preview of the scanned address */}
+          {scannedAddress && profileLookup && (
+            <ProfileCard address={scannedAddress} lookup={profileLookup} />
+          )}
+
+          {/* Scans saved while offline */}
+          {capturedScans.length > 0 && (
+            <OfflineQueuePanel
+              scans={capturedScans}
+              isOnline={isOnline}
+              selectedGroupAddress={selectedGroup?.address}
+              replaying={replayingScans}
+              canReplayGroup={canAddToGroup()}
+              onReplayGroup={replayGroupScans}
+              onSelectGroup={selectGroupByAddress}
+              onOpenInvite={replayInviteScan}
+              onRemove={removeCapturedScan}
+              onClearCompleted={clearCompletedScans}
+            />
+          )}
+
           {/* Render active tab content */}
           {activeTab === "invite" ? renderInviteTab() : renderGroupTab()}
         </>
@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { CirclesRpc } from "./circlesRpc";
+import { formatTimestamp } from "./expiry";
+import { mapWithConcurrency } from "./groupCache";
+import {
+  GroupMember,
+  additionsByDay,
+  fetchGroupMembers,
+  isActiveMember,
+  membersToCsv,
+} from "./groupMembers";
+import { downloadFile } from "./onboardingLog";
+
+interface GroupDashboardProps {
+  group: { address: string; name: string };
+  rpc: CirclesRpc;
+  // Changing this reloads the member list (e.g. after a transaction)
+  refreshKey?: unknown;
+}
+
+type StatusFilter = "active" | "expired" | "all";
+
+// Profile names looked up in parallel
+const NAME_FETCH_CONCURRENCY = 4;
+// Members rendered at once; search narrows the rest down
+const MAX_VISIBLE_MEMBERS = 200;
+// Days shown in the additions chart
+const MAX_CHART_DAYS = 14;
+
+const GroupDashboard: React.FC<GroupDashboardProps> = ({
+  group,
+  rpc,
+  refreshKey,
+}) => {
+  const [members, setMembers] = useState<GroupMember[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [names, setNames] = useState<Record<string, string | null>>({});
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("active");
+  const [search, setSearch] = useState("");
+
+  // Don't show the previous group's members while another group loads
+  useEffect(() => {
+    setMembers(null);
+  }, [group.address]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const loaded = await fetchGroupMembers(rpc, group.address);
+        if (cancelled) return;
+        setMembers(loaded);
+        setLoading(false);
+
+        // Fill in names progressively, skipping ones we already know
+        const known = new Set(Object.keys(names));
+        const missing = loaded
+          .map((member) => member.address.toLowerCase())
+          .filter((address) => !known.has(address));
+        await mapWithConcurrency(
+          missing,
+          NAME_FETCH_CONCURRENCY,
+          async (address) => {
+            if (cancelled) return;
+            let name: string | null = null;
+            try {
+              name = (await rpc.getProfile(address))?.name || null;
+            } catch (error) {
+              console.error("Error fetching profile for", address, error);
+            }
+            if (!cancelled) {
+              setNames((previous) => ({ ...previous, [address]: name }));
+            }
+          },
+        );
+      } catch (error) {
+        console.error("Error loading group members:", error);
+        if (!cancelled) {
+          setError((error as Error).message);
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+    // names is only read to skip known lookups, not to trigger reloads
+  }, [rpc, group.address, refreshKey]);
+
+  const now = Math.floor(Date.now() / 1000);
+  const activeCount = useMemo(
+    () => (members || []).filter((member) => isActiveMember(member)).length,
+    [members],
+  );
+
+  const filteredMembers = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (members || []).filter((member) => {
+      const active = isActiveMember(member);
+      if (statusFilter === "active" && !active) return false;
+      if (statusFilter === "expired" && active) return false;
+      if (!query) return true;
+      const name = names[member.address.toLowerCase()];
+      return (
+        member.address.toLowerCase().includes(query) ||
+        (!!name && name.toLowerCase().includes(query))
+      );
+    });
+  }, [members, names, statusFilter, search]);
+
+  const chartDays = useMemo(
+    () => additionsByDay(members || []).slice(-MAX_CHART_DAYS),
+    [members],
+  );
+  const maxDailyCount = Math.max(1, ...chartDays.map((day) => day.count));
+
+  const exportName = `${group.name.replace(/[^a-z0-9]+/gi, "-")}-members-${new Date()
+    .toISOString()
+    .slice(0, 10)}`;
+
+  if (!members) {
+    return (
+      <div className="group-dashboard">
+        {error ? (
+          <p className="error-message">Could not load members: {error}</p>
+        ) : (
+          <p className="loading-indicator">Loading members...</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="group-dashboard">
+      <div className="dashboard-stats">
+        <div className="dashboard-stat">
+          <strong>{activeCount}</strong>
+          <span>active members</span>
+        </div>
+        <div className="dashboard-stat">
+          <strong>{members.length - activeCount}</strong>
+          <span>expired</span>
+        </div>
+        <div className="dashboard-stat">
+          <strong>
+            {
+              members.filter((member) => now - member.since < 24 * 60 * 60)
+                .length
+            }
+          </strong>
+          <span>added in the last 24h</span>
+        </div>
+      </div>
+
+      {error && <p className="error-message">Could not refresh: {error}</p>}
+
+      {/* Additions over time */}
+      {chartDays.length > 0 && (
+        <div className="dashboard-chart">
+          {chartDays.map((day) => (
+            <div key={day.day} className="dashboard-chart-row">
+              <span className="dashboard-chart-day">{day.day}</span>
+              <div className="dashboard-chart-track">
+                <div
+                  className="dashboard-chart-bar"
+                  style={{ width: `${(day.count / maxDailyCount) * 100}%` }}
+                />
+              </div>
+              <span className="dashboard-chart-count">{day.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="log-filters">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="expiry-select"
+        >
+          <option value="active">Active</option>
+          <option value="expired">Expired</option>
+          <option value="all">All</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Search address or name..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="wallet-input"
+        />
+      </div>
+
+      <div className="log-actions">
+        <span>
+          {filteredMembers.length} of {members.length} members
+          {loading && " (refreshing...)"}
+        </span>
+        <button
+          onClick={() =>
+            downloadFile(
+              `${exportName}.csv`,
+              membersToCsv(filteredMembers, names),
+              "text/csv",
+            )
+          }
+          disabled={filteredMembers.length === 0}
+          className="queue-clear-button"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <ul className="log-list">
+        {filteredMembers.slice(0, MAX_VISIBLE_MEMBERS).map((member) => {
+          const name = names[member.address.toLowerCase()];
+          return (
+            <li
+              key={member.address}
+              className={`log-entry ${
+                isActiveMember(member) ? "log-success" : "log-skipped"
+              }`}
+            >
+              <div className="log-entry-header">
+                <strong>
+                  {name === undefined ? "..." : name || "No profile name"}
+                </strong>
+                <span className="log-time">
+                  Added {new Date(member.since * 1000).toLocaleString()}
+                </span>
+              </div>
+              <div className="queue-address">{member.address}</div>
+              <div className="log-detail">
+                Expires: {formatTimestamp(member.expiry)}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {filteredMembers.length > MAX_VISIBLE_MEMBERS && (
+        <p className="toggle-help-text">
+          Showing the newest {MAX_VISIBLE_MEMBERS}; search to narrow the list or
+          export the CSV for everyone.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GroupDashboard;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react";
+import QRCodeImage from "./QRCodeImage";
+import { shortenLink } from "./inviteTemplates";
+
+// An invitation link shown to a newcomer as a QR code
+export interface SharedInviteLink {
+  address: string;
+  url: string;
+  token?: string;
+  expiresAt?: number; // ms since epoch
+}
+
+interface InviteQrOverlayProps {
+  link: SharedInviteLink;
+  onClose: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Full-screen QR code of the invitation link, to scan with the newcomer's phone
+const InviteQrOverlay: React.FC<InviteQrOverlayProps> = ({ link, onClose }) => {
+  const [now, setNow] = useState(Date.now());
+  const [copied, setCopied] = useState(false);
+
+  // Tick once a second while the link has an expiry
+  useEffect(() => {
+    setCopied(false);
+    if (!link.expiresAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [link]);
+
+  const expired = !!link.expiresAt && now >= link.expiresAt;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+    } catch (error) {
+      console.error("Error copying invitation link:", error);
+    }
+  };
+
+  return (
+    <div className="invite-qr-overlay" role="dialog" aria-modal="true">
+      <div className="invite-qr-content">
+        <h2>Scan to join Circles</h2>
+        {expired ? (
+          <p className="error-message">
+            This code is past its expiry time. Show a new code.
+          </p>
+        ) : (
+          <QRCodeImage
+            value={link.url}
+            size={480}
+            className="invite-qr-image"
+          />
+        )}
+        <div className="invite-qr-link">
+          <span title={link.url}>{shortenLink(link.url)}</span>
+          <button onClick={handleCopy} className="queue-clear-button">
+            {copied ? "Copied" : "Copy link"}
+          </button>
+        </div>
+        {link.expiresAt && !expired && (
+          <p className="toggle-help-text">
+            Code shown for {formatRemaining(link.expiresAt - now)}
+          </p>
+        )}
+        {link.token && (
+          <p className="toggle-help-text">Reference token: {link.token}</p>
+        )}
+        <button onClick={onClose} className="action-button cancel-button">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InviteQrOverlay;
@@ -0,0 +1,292 @@
+import React, { useState } from "react";
+import {
+  InviteDelivery,
+  InviteProvider,
+  InviteSession,
+  InviteTemplate,
+  PLACEHOLDERS,
+  PROVIDER_LABELS,
+  tallyPattern,
+  validateTemplate,
+} from "./inviteTemplates";
+
+interface InviteTemplateSettingsProps {
+  templates: InviteTemplate[];
+  selected: InviteTemplate;
+  session: InviteSession;
+  onSelect: (templateId: string) => void;
+  onSessionChange: (session: InviteSession) => void;
+  onSaveTemplates: (templates: InviteTemplate[]) => void;
+}
+
+// Lifetimes offered for links shown as a QR code
+const LINK_EXPIRY_OPTIONS: [number, string][] = [
+  [0, "No expiry"],
+  [5, "5 minutes"],
+  [15, "15 minutes"],
+  [60, "1 hour"],
+  [24 * 60, "1 day"],
+];
+
+const InviteTemplateSettings: React.FC<InviteTemplateSettingsProps> = ({
+  templates,
+  selected,
+  session,
+  onSelect,
+  onSessionChange,
+  onSaveTemplates,
+}) => {
+  const [editing, setEditing] = useState(false);
+  // Template being created or edited
+  const [draft, setDraft] = useState<InviteTemplate | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const updateSession = (update: Partial<InviteSession>) => {
+    onSessionChange({ ...session, ...update });
+  };
+
+  const startDraft = (template: InviteTemplate) => {
+    setDraft(template);
+    setDraftError(null);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const template = {
+      ...draft,
+      name: draft.name.trim(),
+      urlPattern: draft.urlPattern.trim(),
+    };
+    const error = validateTemplate(template);
+    if (error) {
+      setDraftError(error);
+      return;
+    }
+
+    const exists = templates.some((entry) => entry.id === template.id);
+    onSaveTemplates(
+      exists
+        ? templates.map((entry) =>
+            entry.id === template.id ? template : entry,
+          )
+        : [...templates, template],
+    );
+    onSelect(template.id);
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the template "${selected.name}"?`)) {
+      onSaveTemplates(templates.filter((entry) => entry.id !== selected.id));
+    }
+  };
+
+  return (
+    <div className="org-settings">
+      <div className="org-summary">
+        <span>
+          Invitation form: <strong>{selected.name}</strong>{" "}
+          <span className="org-address">
+            ({PROVIDER_LABELS[selected.provider]}
+            {session.event && `, ${session.event}`})
+          </span>
+        </span>
+        <button
+          onClick={() => setEditing(!editing)}
+          className="queue-clear-button"
+        >
+          {editing ? "Close" : "Change"}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="org-form">
+          <label>
+            Event name
+            <input
+              type="text"
+              value={session.event}
+              onChange={(e) => updateSession({ event: e.target.value })}
+              className="wallet-input"
+            />
+          </label>
+          <label>
+            Template (remembered for this event)
+            <select
+              value={selected.id}
+              onChange={(e) => onSelect(e.target.value)}
+              className="expiry-select"
+            >
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Operator name
+            <input
+              type="text"
+              value={session.operator}
+              onChange={(e) => updateSession({ operator: e.target.value })}
+              className="wallet-input"
+            />
+          </label>
+          <label>
+            Language
+            <input
+              type="text"
+              value={session.language}
+              onChange={(e) => updateSession({ language: e.target.value })}
+              className="wallet-input"
+            />
+          </label>
+          <label>
+            Invite delivery (used by Auto-Invite)
+            <select
+              value={session.delivery}
+              onChange={(e) =>
+                updateSession({ delivery: e.target.value as InviteDelivery })
+              }
+              className="expiry-select"
+            >
+              <option value="qr">
+                Show a QR code for the newcomer's phone
+              </option>
+              <option value="open">Open the form on this device</option>
+            </select>
+          </label>
+          <label>
+            Expiry time added to QR links (not enforced)
+            <select
+              value={session.linkExpiryMinutes}
+              onChange={(e) =>
+                updateSession({
+                  linkExpiryMinutes: parseInt(e.target.value, 10),
+                })
+              }
+              className="expiry-select"
+            >
+              {LINK_EXPIRY_OPTIONS.map(([minutes, label]) => (
+                <option key={minutes} value={minutes}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="org-checkbox">
+            <input
+              type="checkbox"
+              checked={session.oneTimeToken}
+              onChange={(e) =>
+                updateSession({ oneTimeToken: e.target.checked })
+              }
+            />
+            Add a random reference token to each QR link
+          </label>
+          <p className="toggle-help-text">
+            The token and expiry are informational: they are passed to the form
+            as the token and expires fields and recorded in the log, but this
+            app does not check them. An expired or reused link still opens the
+            form unless the form owner rejects it.
+          </p>
+
+          {draft ? (
+            <>
+              <label>
+                Template name
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="wallet-input"
+                />
+              </label>
+              <label>
+                Form provider
+                <select
+                  value={draft.provider}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      provider: e.target.value as InviteProvider,
+                    })
+                  }
+                  className="expiry-select"
+                >
+                  <option value="tally">{PROVIDER_LABELS.tally}</option>
+                  <option value="generic">{PROVIDER_LABELS.generic}</option>
+                </select>
+              </label>
+              <label>
+                URL pattern
+                <input
+                  type="text"
+                  value={draft.urlPattern}
+                  onChange={(e) =>
+                    setDraft({ ...draft, urlPattern: e.target.value })
+                  }
+                  className="wallet-input"
+                />
+              </label>
+              <p className="toggle-help-text">
+                Placeholders:{" "}
+                {PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(
+                  ", ",
+                )}
+                . Parameters left empty are dropped from the link.
+              </p>
+              {draftError && <p className="error-message">{draftError}</p>}
+              <div className="action-buttons-container">
+                <button
+                  onClick={handleSaveDraft}
+                  className="action-button group-button"
+                >
+                  Save Template
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="action-button cancel-button"
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="action-buttons-container">
+              <button
+                onClick={() => startDraft(selected)}
+                className="action-button cancel-button"
+              >
+                Edit Template
+              </button>
+              <button
+                onClick={() =>
+                  startDraft({
+                    id: Date.now().toString(36),
+                    name: "",
+                    provider: "tally",
+                    urlPattern: tallyPattern("your-form-id"),
+                  })
+                }
+                className="action-button cancel-button"
+              >
+                New Template
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={templates.length === 1}
+                className="action-button remove-button"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InviteTemplateSettings;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from "react";
+import QRCodeScanner from "./QRCodeScanner";
+import InviteQrOverlay, { SharedInviteLink } from "./InviteQrOverlay";
+import { KioskConfig, KioskOutcome, checkPin, enterFullscreen } from "./kiosk";
+
+interface KioskScreenProps {
+  config: KioskConfig;
+  outcome: KioskOutcome | null;
+  invite: SharedInviteLink | null;
+  // Scans waiting in the queue for operator approval
+  pendingCount: number;
+  onScan: (address: string) => void;
+  onReset: () => void;
+  onUnlock: () => void;
+}
+
+// An abandoned PIN prompt closes after this long
+const PIN_PROMPT_TIMEOUT_MS = 30000;
+
+const resultMessage = (outcome: KioskOutcome, groupName: string) => {
+  switch (outcome.state) {
+    case "working":
+      return "One moment...";
+    case "added":
+      return `Welcome! You have been added to ${groupName}.`;
+    case "proposed":
+      return `Thanks! Your membership of ${groupName} will be confirmed by the group owners.`;
+    case "queued":
+      return "Thanks! An organizer will confirm your membership shortly.";
+    case "member":
+      return `You are already a member of ${groupName}.`;
+    case "saved":
+      return "Thanks! You will be added as soon as the kiosk is back online.";
+    case "invite":
+      return "Scan the code with your phone to open the invitation form.";
+    case "failed":
+      return "Sorry, that did not work. Please ask an organizer.";
+  }
+};
+
+// Full-screen self-service screen: newcomers scan themselves, see the result
+// and the kiosk returns to the start screen for the next person
+const KioskScreen: React.FC<KioskScreenProps> = ({
+  config,
+  outcome,
+  invite,
+  pendingCount,
+  onScan,
+  onReset,
+  onUnlock,
+}) => {
+  const [pinPrompt, setPinPrompt] = useState(false);
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState(false);
+  const groupName = config.groupName || "the group";
+
+  // The timer must not restart when the parent re-renders
+  const onResetRef = useRef(onReset);
+  onResetRef.current = onReset;
+
+  useEffect(() => {
+    enterFullscreen();
+  }, []);
+
+  // Return to the start screen a while after each result
+  useEffect(() => {
+    if (!outcome || outcome.state === "working") return;
+    const timeout = setTimeout(
+      () => onResetRef.current(),
+      config.resetSeconds * 1000,
+    );
+    return () => clearTimeout(timeout);
+  }, [outcome, config.resetSeconds]);
+
+  useEffect(() => {
+    if (!pinPrompt) return;
+    const timeout = setTimeout(closePinPrompt, PIN_PROMPT_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [pinPrompt]);
+
+  const closePinPrompt = () => {
+    setPinPrompt(false);
+    setPin("");
+    setPinError(false);
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (checkPin(config, pin)) {
+      closePinPrompt();
+      onUnlock();
+    } else {
+      setPin("");
+      setPinError(true);
+    }
+  };
+
+  return (
+    // Full screen needs a user gesture, e.g. after the page was reloaded
+    <div className="kiosk-screen" onPointerDown={enterFullscreen}>
+      <div className="kiosk-header">
+        <h1>
+          {config.action === "group" ? `Join ${groupName}` : "Join Circles"}
+        </h1>
+        <button
+          onClick={() => setPinPrompt(true)}
+          className="queue-clear-button"
+        >
+          Operator
+        </button>
+      </div>
+
+      {outcome ? (
+        <div className={`kiosk-result kiosk-result-${outcome.state}`}>
+          <p className="kiosk-message">{resultMessage(outcome, groupName)}</p>
+          <p className="kiosk-address">
+            {outcome.address.substring(0, 6)}...
+            {outcome.address.substring(38)}
+          </p>
+          {outcome.state === "failed" && (
+            <p className="toggle-help-text">{outcome.error}</p>
+          )}
+          {outcome.state !== "working" && (
+            <button onClick={onReset} className="action-button cancel-button">
+              Next Person
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="kiosk-message">
+          Open your Circles wallet and hold its QR code up to the camera
+        </p>
+      )}
+
+      {/* The camera stays on between people; scans during a result are ignored */}
+      <div className={outcome ? "kiosk-scanner-paused" : undefined}>
+        <QRCodeScanner onScan={onScan} onClose={onReset} continuous inline />
+      </div>
+
+      {config.approval && config.action === "group" && pendingCount > 0 && (
+        <p className="toggle-help-text">{pendingCount} waiting for approval</p>
+      )}
+
+      {invite && outcome?.state === "invite" && (
+        <InviteQrOverlay link={invite} onClose={onReset} />
+      )}
+
+      {pinPrompt && (
+        <div className="kiosk-pin-overlay">
+          <form onSubmit={handleUnlock} className="kiosk-pin-form">
+            <h2>Operator PIN</h2>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={pin}
+              onChange={(e) => {
+                setPin(e.target.value);
+                setPinError(false);
+              }}
+              className="wallet-input"
+            />
+            {pinError && <p className="error-message">Wrong PIN</p>}
+            <div className="action-buttons-container">
+              <button type="submit" className="action-button group-button">
+                Unlock
+              </button>
+              <button
+                type="button"
+                onClick={closePinPrompt}
+                className="action-button cancel-button"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KioskScreen;
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import {
+  KioskAction,
+  KioskConfig,
+  MIN_PIN_LENGTH,
+  RESET_OPTIONS,
+  hashPin,
+} from "./kiosk";
+
+interface KioskSetupProps {
+  // Settings of the last kiosk session, reused as defaults
+  config: KioskConfig | null;
+  defaultAction: KioskAction;
+  group: { address: string; name: string } | null;
+  template: { id: string; name: string };
+  onStart: (config: KioskConfig) => void;
+}
+
+const KioskSetup: React.FC<KioskSetupProps> = ({
+  config,
+  defaultAction,
+  group,
+  template,
+  onStart,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [action, setAction] = useState<KioskAction>(
+    config?.action || defaultAction,
+  );
+  const [approval, setApproval] = useState(config?.approval ?? true);
+  const [resetSeconds, setResetSeconds] = useState(
+    config?.resetSeconds || RESET_OPTIONS[1],
+  );
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStart = () => {
+    if (action === "group" && !group) {
+      setError("Select the group for the kiosk first");
+      return;
+    }
+    // A blank PIN keeps the one from the last kiosk session
+    if (pin.trim().length < MIN_PIN_LENGTH && !(pin === "" && config)) {
+      setError(`The operator PIN needs at least ${MIN_PIN_LENGTH} digits`);
+      return;
+    }
+
+    setError(null);
+    setPin("");
+    setEditing(false);
+    onStart({
+      active: true,
+      action,
+      groupAddress: group?.address.toLowerCase(),
+      groupName: group?.name,
+      templateId: template.id,
+      approval,
+      resetSeconds,
+      pinHash: pin ? hashPin(pin) : config!.pinHash,
+    });
+  };
+
+  return (
+    <div className="org-settings">
+      <div className="org-summary">
+        <span>
+          Kiosk mode: <strong>off</strong>{" "}
+          <span className="org-address">(self-service scanning)</span>
+        </span>
+        <button
+          onClick={() => setEditing(!editing)}
+          className="queue-clear-button"
+        >
+          {editing ? "Close" : "Set up"}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="org-form">
+          <label>
+            Newcomers who scan are
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as KioskAction)}
+              className="expiry-select"
+            >
+              <option value="invite">
+                Shown the invitation form ({template.name})
+              </option>
+              <option value="group">
+                Added to {group ? group.name : "the selected group"}
+              </option>
+            </select>
+          </label>
+          {action === "group" && (
+            <>
+              <label className="org-checkbox">
+                <input
+                  type="checkbox"
+                  checked={approval}
+                  onChange={(e) => setApproval(e.target.checked)}
+                />
+                Queue group adds for operator approval
+              </label>
+              <p className="toggle-help-text">
+                {approval
+                  ? "Scans are collected in the batch queue; unlock the kiosk to review and submit them."
+                  : "Each scan is added right away with the connected wallet or Safe, which has to stay connected."}
+              </p>
+            </>
+          )}
+          <label>
+            Return to the start screen after
+            <select
+              value={resetSeconds}
+              onChange={(e) => setResetSeconds(parseInt(e.target.value, 10))}
+              className="expiry-select"
+            >
+              {RESET_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds} seconds
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Operator PIN{config && " (leave blank to keep the current one)"}
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="wallet-input"
+            />
+          </label>
+          {error && <p className="error-message">{error}</p>}
+          <div className="action-buttons-container">
+            <button
+              onClick={handleStart}
+              className="action-button group-button"
+            >
+              Start Kiosk
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KioskSetup;
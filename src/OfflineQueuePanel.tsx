@@ -0,0 +1,133 @@
+import React from "react";
+import { CapturedScan } from "./offlineQueue";
+
+interface OfflineQueuePanelProps {
+  scans: CapturedScan[];
+  isOnline: boolean;
+  selectedGroupAddress?: string;
+  replaying: boolean;
+  canReplayGroup: boolean;
+  onReplayGroup: () => void;
+  onSelectGroup: (groupAddress: string) => void;
+  onOpenInvite: (scan: CapturedScan) => void;
+  onRemove: (id: string) => void;
+  onClearCompleted: () => void;
+}
+
+const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({
+  scans,
+  isOnline,
+  selectedGroupAddress,
+  replaying,
+  canReplayGroup,
+  onReplayGroup,
+  onSelectGroup,
+  onOpenInvite,
+  onRemove,
+  onClearCompleted,
+}) => {
+  const queued = scans.filter((scan) => scan.status !== "done");
+  const isSelectedGroup = (scan: CapturedScan) =>
+    !!selectedGroupAddress &&
+    scan.groupAddress?.toLowerCase() === selectedGroupAddress.toLowerCase();
+  const replayableCount = queued.filter(
+    (scan) => scan.tab === "group" && isSelectedGroup(scan),
+  ).length;
+
+  return (
+    <div className={`offline-panel ${isOnline ? "online" : "offline"}`}>
+      <div className="queue-header">
+        <h3>
+          {isOnline
+            ? `Connection restored: ${queued.length} saved ${
+                queued.length === 1 ? "scan" : "scans"
+              }`
+            : `Offline: ${queued.length} ${
+                queued.length === 1 ? "scan" : "scans"
+              } saved for later`}
+        </h3>
+        {scans.length > queued.length && (
+          <button onClick={onClearCompleted} className="queue-clear-button">
+            Clear completed
+          </button>
+        )}
+      </div>
+
+      <ul className="queue-list">
+        {scans.map((scan) => (
+          <li key={scan.id} className={`queue-item offline-${scan.status}`}>
+            <div>
+              <div className="queue-address">{scan.address}</div>
+              <div className="log-detail">
+                {scan.tab === "invite"
+                  ? scan.inviteMode === "onchain"
+                    ? "On-chain invite"
+                    : "Invite"
+                  : `Add to ${scan.groupName || scan.groupAddress}`}
+                {scan.context ? ` · ${scan.context}` : ""} ·{" "}
+                {new Date(scan.capturedAt).toLocaleTimeString()}
+              </div>
+              {scan.status !== "queued" && (
+                <div className="log-detail">
+                  {scan.status}
+                  {scan.message ? `: ${scan.message}` : ""}
+                </div>
+              )}
+            </div>
+
+            {scan.status !== "done" && (
+              <div className="offline-actions">
+                {isOnline && scan.tab === "invite" && (
+                  <button
+                    onClick={() => onOpenInvite(scan)}
+                    className="queue-clear-button"
+                  >
+                    {scan.inviteMode === "onchain"
+                      ? "Send invite"
+                      : "Open form"}
+                  </button>
+                )}
+                {isOnline &&
+                  scan.tab === "group" &&
+                  scan.groupAddress &&
+                  !isSelectedGroup(scan) && (
+                    <button
+                      onClick={() => onSelectGroup(scan.groupAddress!)}
+                      className="queue-clear-button"
+                    >
+                      Select group
+                    </button>
+                  )}
+                <button
+                  onClick={() => onRemove(scan.id)}
+                  className="queue-remove-button"
+                  aria-label={`Remove ${scan.address}`}
+                >
+                  ✕
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOnline && replayableCount > 0 && (
+        <div className="action-buttons-container">
+          <button
+            onClick={onReplayGroup}
+            disabled={replaying || !canReplayGroup}
+            className="action-button group-button"
+          >
+            {replaying
+              ? "Replaying..."
+              : `Replay ${replayableCount} group ${
+                  replayableCount === 1 ? "add" : "adds"
+                }`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineQueuePanel;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from "react";
+import { OrgConfig, OrgConfigSource, validateOrgConfig } from "./orgConfig";
+
+interface OrgSettingsProps {
+  config: OrgConfig;
+  source: OrgConfigSource;
+  orgName: string | null;
+  onSave: (settings: OrgConfig) => void;
+  onReset: () => void;
+}
+
+const SOURCE_LABELS: Record<OrgConfigSource, string> = {
+  default: "default",
+  env: "environment",
+  settings: "saved settings",
+  url: "link",
+};
+
+const OrgSettings: React.FC<OrgSettingsProps> = ({
+  config,
+  source,
+  orgName,
+  onSave,
+  onReset,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [orgAddress, setOrgAddress] = useState(config.orgAddress);
+  const [excludedGroups, setExcludedGroups] = useState(
+    config.excludedGroups.join(", "),
+  );
+  const [fallbackGroupAddress, setFallbackGroupAddress] = useState(
+    config.fallbackGroupAddress,
+  );
+  const [fallbackGroupName, setFallbackGroupName] = useState(
+    config.fallbackGroupName,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever the active configuration changes
+  useEffect(() => {
+    setOrgAddress(config.orgAddress);
+    setExcludedGroups(config.excludedGroups.join(", "));
+    setFallbackGroupAddress(config.fallbackGroupAddress);
+    setFallbackGroupName(config.fallbackGroupName);
+    setError(null);
+  }, [config]);
+
+  const handleSave = () => {
+    const settings = {
+      orgAddress: orgAddress.trim(),
+      excludedGroups: excludedGroups
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+      fallbackGroupAddress: fallbackGroupAddress.trim(),
+      fallbackGroupName: fallbackGroupName.trim(),
+    };
+    // Invalid addresses would be dropped on the next load, reverting the input
+    const validationError = validateOrgConfig(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    onSave(settings);
+    setEditing(false);
+  };
+
+  return (
+    <div className="org-settings">
+      <div className="org-summary">
+        <span>
+          Organization: <strong>{orgName || "Unnamed organization"}</strong>{" "}
+          <span className="org-address">
+            ({config.orgAddress.substring(0, 6)}...
+            {config.orgAddress.substring(38)}, from {SOURCE_LABELS[source]})
+          </span>
+        </span>
+        <button
+          onClick={() => setEditing(!editing)}
+          className="queue-clear-button"
+        >
+          {editing ? "Close" : "Change"}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="org-form">
+          <label>
+            Organization address
+            <input
+              type="text"
+              value={orgAddress}
+              onChange={(e) => setOrgAddress(e.target.value)}
+              className="wallet-input"
+            />
+          </label>
+          <label>
+            Excluded groups (comma separated)
+            <input
+              type="text"
+              value={excludedGroups}
+              onChange={(e) => setExcludedGroups(e.target.value)}
+              className="wallet-input"
+            />
+          </label>
+          <label>
+            Fallback group address
+            <input
+              type="text"
+              value={fallbackGroupAddress}
+              onChange={(e) => setFallbackGroupAddress(e.target.value)}
+              className="wallet-input"
+            />
+          </label>
+          <label>
+            Fallback group name
+            <input
+              type="text"
+              value={fallbackGroupName}
+              onChange={(e) => setFallbackGroupName(e.target.value)}
+              className="wallet-input"
+            />
+          </label>
+          {error && <p className="error-message">{error}</p>}
+          {source === "url" && (
+            <p className="toggle-help-text">
+              The link you opened overrides saved settings.
+            </p>
+          )}
+          <div className="action-buttons-container">
+            <button onClick={handleSave} className="action-button group-button">
+              Save
+            </button>
+            <button onClick={onReset} className="action-button cancel-button">
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrgSettings;
@@ -0,0 +1,82 @@
+import React from "react";
+import { AvatarRow, CirclesProfile } from "./circlesRpc";
+
+// Profile lookup for the scanned address
+export type ProfileLookup =
+  | { state: "loading" }
+  | {
+      state: "loaded";
+      profile: CirclesProfile | null;
+      avatar: AvatarRow | null;
+    }
+  | { state: "error"; error: string };
+
+interface ProfileCardProps {
+  address: string;
+  lookup: ProfileLookup;
+}
+
+const AVATAR_TYPES: Record<string, string> = {
+  CrcV2_RegisterHuman: "Human",
+  CrcV2_RegisterGroup: "Group",
+  CrcV2_RegisterOrganization: "Organization",
+};
+
+const ProfileCard: React.FC<ProfileCardProps> = ({ address, lookup }) => {
+  if (lookup.state === "loading") {
+    return (
+      <div className="profile-card">
+        <p className="loading-indicator">Loading profile...</p>
+      </div>
+    );
+  }
+
+  if (lookup.state === "error") {
+    return (
+      <div className="profile-card profile-card-error">
+        <p className="profile-address">{address}</p>
+        <p>Could not load profile: {lookup.error}</p>
+      </div>
+    );
+  }
+
+  const { profile, avatar } = lookup;
+  const image = profile?.previewImageUrl || profile?.imageUrl;
+  const name = profile?.name || avatar?.name;
+
+  return (
+    <div
+      className={`profile-card ${avatar ? "" : "profile-card-unregistered"}`}
+    >
+      <div className="profile-card-header">
+        {image ? (
+          <img src={image} alt="" className="profile-image" />
+        ) : (
+          <div className="profile-image profile-image-placeholder">
+            {(name || "?").charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div className="profile-card-body">
+          <h3>{name || "No profile name"}</h3>
+          <p className="profile-address">{address}</p>
+        </div>
+      </div>
+
+      {profile?.description && (
+        <p className="profile-description">{profile.description}</p>
+      )}
+
+      {avatar ? (
+        <p className="profile-badge registered">
+          ✓ Registered in Circles as {AVATAR_TYPES[avatar.type] || avatar.type}
+        </p>
+      ) : (
+        <p className="profile-badge unregistered">
+          ⚠️ Not registered in Circles
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProfileCard;
@@ -0,0 +1,65 @@
+import React, { useMemo } from "react";
+import {
+  QRCodeDecoderErrorCorrectionLevel,
+  QRCodeEncoder,
+} from "@zxing/library";
+
+interface QRCodeImageProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// Modules of white space around the code, as required by the QR spec
+const QUIET_ZONE = 4;
+
+// Render text as a QR code SVG
+const QRCodeImage: React.FC<QRCodeImageProps> = ({
+  value,
+  size = 240,
+  className,
+}) => {
+  const qr = useMemo(() => {
+    try {
+      const matrix = QRCodeEncoder.encode(
+        value,
+        QRCodeDecoderErrorCorrectionLevel.M,
+      ).getMatrix();
+      // One path of unit squares, offset by the quiet zone
+      let path = "";
+      for (let y = 0; y < matrix.getHeight(); y++) {
+        for (let x = 0; x < matrix.getWidth(); x++) {
+          if (matrix.get(x, y) === 1) {
+            path += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+          }
+        }
+      }
+      return { width: matrix.getWidth(), path };
+    } catch (error) {
+      console.error("Error encoding QR code:", error);
+      return null;
+    }
+  }, [value]);
+
+  if (!qr) {
+    return <p className="error-message">This link is too long for a QR code</p>;
+  }
+
+  const viewSize = qr.width + QUIET_ZONE * 2;
+  return (
+    <svg
+      viewBox={`0 0 ${viewSize} ${viewSize}`}
+      width={size}
+      height={size}
+      className={className}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={value}
+    >
+      <rect width={viewSize} height={viewSize} fill="#fff" />
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QRCodeImage;
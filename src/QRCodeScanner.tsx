@@ -1,24 +1,115 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import QrScanner from "react-qr-scanner";
+import { parseQrPayload, PayloadFormat } from "./qrPayload";
+import { decodeQrImage } from "./qrImage";
+
+// Ignore repeated reads of the same code until it has been out of view this long
+const SCAN_COOLDOWN_MS = 3000;
+
+// An address read during a continuous scanning session
+export interface TalliedScan {
+  address: string;
+  action: string;
+}
 
 interface QRCodeScannerProps {
-  onScan: (address: string) => void;
+  onScan: (address: string, format: PayloadFormat) => void;
   onClose: () => void;
   debug?: boolean;
+  // Keep the camera open and show a tally of the session's scans
+  continuous?: boolean;
+  tally?: TalliedScan[];
+  // Render in place without title or close button (kiosk screen)
+  inline?: boolean;
+}
+
+// Torch and zoom are not yet part of the standard track typings
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step: number };
 }
 
+interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Tell a blocked camera apart from a missing or busy one
+const describeCameraError = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : "";
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return {
+        denied: true,
+        message:
+          "Camera permission was denied. Allow camera access in your browser settings, or upload a screenshot of the QR code instead.",
+      };
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return {
+        denied: false,
+        message:
+          "No camera found. Upload or paste a screenshot of the QR code instead.",
+      };
+    case "NotReadableError":
+      return {
+        denied: false,
+        message:
+          "The camera is in use by another application. Close it and try again, or upload a screenshot.",
+      };
+    default:
+      return {
+        denied: false,
+        message: `Could not start the camera: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+      };
+  }
+};
+
 const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
   onScan,
   onClose,
   debug = false,
+  continuous = false,
+  tally = [],
+  inline = false,
 }) => {
   const [error, setError] = useState<string | null>(null);
+  const [cameraError, setCameraError] = useState<{
+    denied: boolean;
+    message: string;
+  } | null>(null);
+  const lastReadRef = useRef<{ text: string; at: number } | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
   const [cameraReady, setCameraReady] = useState(false);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoomRange, setZoomRange] = useState<ZoomRange | null>(null);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [decodingImage, setDecodingImage] = useState(false);
+  const videoContainerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The reader restarts its stream whenever its callbacks change identity
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
 
   useEffect(() => {
-    // Simple camera setup - just try to get the back camera
+    // Try the back camera first, then list every camera once permission is granted
     const setupCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError({
+          denied: false,
+          message:
+            "This browser cannot access a camera here. Upload or paste a screenshot of the QR code instead.",
+        });
+        return;
+      }
+
       try {
         const stream = await navigator.mediaDevices.getUserMedia({
           video: { facingMode: "environment" },
@@ -33,76 +124,265 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
 
         // Clean up the stream we just created
         stream.getTracks().forEach((track) => track.stop());
+
+        // Device labels are only available after permission was granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        setCameras(devices.filter((device) => device.kind === "videoinput"));
       } catch (err) {
         console.error("Camera access error:", err);
-        setError("Could not access camera. Please check permissions.");
+        setCameraError(describeCameraError(err));
       }
     };
 
     setupCamera();
   }, []);
 
-  const handleScan = (data: { text: string } | null) => {
-    if (data && data.text) {
+  const getVideoTrack = () => {
+    const video = videoContainerRef.current?.querySelector("video");
+    const stream = video?.srcObject as MediaStream | null | undefined;
+    return stream?.getVideoTracks()[0] || null;
+  };
+
+  // Read torch and zoom support from the track the reader just opened
+  const handleLoad = useCallback(() => {
+    const track = getVideoTrack();
+    const capabilities = (track?.getCapabilities?.() ||
+      {}) as ExtendedCapabilities;
+
+    setTorchSupported(!!capabilities.torch);
+    setTorchOn(false);
+    if (capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min) {
+      setZoomRange(capabilities.zoom);
+      setZoom(capabilities.zoom.min);
+    } else {
+      setZoomRange(null);
+      setZoom(null);
+    }
+  }, []);
+
+  const applyTrackSetting = async (setting: Record<string, unknown>) => {
+    const track = getVideoTrack();
+    if (!track) return false;
+    try {
+      await track.applyConstraints({
+        advanced: [setting as MediaTrackConstraintSet],
+      });
+      return true;
+    } catch (err) {
+      console.error("Could not apply camera setting:", err);
+      return false;
+    }
+  };
+
+  const toggleTorch = async () => {
+    if (await applyTrackSetting({ torch: !torchOn })) {
+      setTorchOn(!torchOn);
+    }
+  };
+
+  const handleZoomChange = async (value: number) => {
+    setZoom(value);
+    await applyTrackSetting({ zoom: value });
+  };
+
+  const handleCameraChange = (deviceId: string) => {
+    setCameraError(null);
+    setTorchSupported(false);
+    setZoomRange(null);
+    setSelectedDeviceId(deviceId);
+  };
+
+  // Parse a decoded QR code, from the camera or from an image
+  const handlePayload = useCallback(
+    (text: string, source: "camera" | "image") => {
+      // Someone holding their phone up produces a read every frame
+      const now = Date.now();
+      const lastRead = lastReadRef.current;
+      lastReadRef.current = { text, at: now };
+      if (
+        source === "camera" &&
+        lastRead &&
+        lastRead.text === text &&
+        now - lastRead.at < SCAN_COOLDOWN_MS
+      ) {
+        return;
+      }
+
       if (debug) {
-        console.log("QR Code scanned:", data.text);
+        console.log("QR Code scanned:", text);
       }
 
-      // Extract Ethereum address using a simple regex
-      const ethAddressRegex = /(0x[a-fA-F0-9]{40})/i;
-      const match = data.text.match(ethAddressRegex);
+      // Extract the wallet address from the supported payload formats
+      const parsed = parseQrPayload(text);
 
-      if (match && match[1]) {
-        const address = match[1];
+      if (parsed.ok) {
         if (debug) {
-          console.log("Extracted address:", address);
+          console.log("Extracted address:", parsed.address, parsed.format);
         }
-        onScan(address);
+        setError(null);
+        onScanRef.current(parsed.address, parsed.format);
       } else {
-        setError("No Ethereum address found in QR code");
+        setError(parsed.error);
       }
+    },
+    [debug],
+  );
+
+  const handleScan = useCallback(
+    (data: { text: string } | null) => {
+      if (data && data.text) {
+        handlePayload(data.text, "camera");
+      }
+    },
+    [handlePayload],
+  );
+
+  const handleError = useCallback((err: Error) => {
+    console.error("QR Scanner error:", err);
+    setCameraError(describeCameraError(err));
+  }, []);
+
+  const decodeImage = async (image: Blob) => {
+    setDecodingImage(true);
+    setError(null);
+    try {
+      const text = await decodeQrImage(image);
+      if (text) {
+        handlePayload(text, "image");
+      } else {
+        setError("No QR code found in the image. Try a sharper screenshot.");
+      }
+    } catch (err) {
+      console.error("Image decode error:", err);
+      setError("Could not read the image: " + (err as Error).message);
+    } finally {
+      setDecodingImage(false);
     }
   };
 
-  const handleError = (err: Error) => {
-    console.error("QR Scanner error:", err);
-    setError("Scanner error: " + err.message);
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) decodeImage(file);
+    e.target.value = "";
   };
 
+  // Accept pasted screenshots while the scanner is open
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const image = Array.from(e.clipboardData?.files || []).find((file) =>
+        file.type.startsWith("image/"),
+      );
+      if (image) {
+        e.preventDefault();
+        decodeImage(image);
+      }
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  });
+
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
+    <div
+      className={
+        inline
+          ? "kiosk-scanner"
+          : "fixed inset-0 z-50 flex items-center justify-center bg-black/70"
+      }
+    >
       <div className="bg-white rounded-lg p-4 w-full max-w-md mx-4">
-        <h3 className="text-xl font-bold mb-4 text-center">
-          Scan Metri Wallet QR Code
-        </h3>
-
-        <div className="w-full aspect-square relative bg-gray-100 overflow-hidden rounded-lg mb-4">
-          {cameraReady && selectedDeviceId && (
-            <QrScanner
-              delay={300}
-              onError={handleError}
-              onScan={handleScan}
-              style={{
-                width: "100%",
-                height: "100%",
-                objectFit: "cover",
-              }}
-              constraints={{
-                audio: false,
-                video: {
-                  deviceId: selectedDeviceId
-                    ? { exact: selectedDeviceId }
-                    : undefined,
-                  facingMode: "environment", // Prefer back camera
-                },
-              }}
-            />
-          )}
-          {/* Scanning frame with improved visibility */}
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="w-3/4 h-3/4 border-4 border-[#10b981] rounded-lg"></div>
+        {!inline && (
+          <h3 className="text-xl font-bold mb-4 text-center">
+            {continuous ? "Scanning Continuously" : "Scan Metri Wallet QR Code"}
+          </h3>
+        )}
+
+        {cameras.length > 1 && (
+          <select
+            value={selectedDeviceId || ""}
+            onChange={(e) => handleCameraChange(e.target.value)}
+            className="w-full mb-2 p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {cameras.map((camera, index) => (
+              <option key={camera.deviceId} value={camera.deviceId}>
+                {camera.label || `Camera ${index + 1}`}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {!cameraError && (
+          <div
+            ref={videoContainerRef}
+            className="w-full aspect-square relative bg-gray-100 overflow-hidden rounded-lg mb-4"
+          >
+            {cameraReady && selectedDeviceId && (
+              <QrScanner
+                delay={300}
+                onError={handleError}
+                onScan={handleScan}
+                onLoad={handleLoad}
+                style={{
+                  width: "100%",
+                  height: "100%",
+                  objectFit: "cover",
+                }}
+                constraints={{
+                  audio: false,
+                  video: {
+                    deviceId: selectedDeviceId
+                      ? { exact: selectedDeviceId }
+                      : undefined,
+                    facingMode: "environment", // Prefer back camera
+                  },
+                }}
+              />
+            )}
+            {/* Scanning frame with improved visibility */}
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="w-3/4 h-3/4 border-4 border-[#10b981] rounded-lg"></div>
+            </div>
+          </div>
+        )}
+
+        {(torchSupported || zoomRange) && !cameraError && (
+          <div className="flex items-center gap-3 mb-4 text-sm">
+            {torchSupported && (
+              <button
+                onClick={toggleTorch}
+                className="px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg"
+              >
+                {torchOn ? "Torch off" : "Torch on"}
+              </button>
+            )}
+            {zoomRange && zoom !== null && (
+              <label className="flex items-center gap-2 flex-1">
+                Zoom
+                <input
+                  type="range"
+                  min={zoomRange.min}
+                  max={zoomRange.max}
+                  step={zoomRange.step || 0.1}
+                  value={zoom}
+                  onChange={(e) => handleZoomChange(Number(e.target.value))}
+                  className="flex-1"
+                />
+              </label>
+            )}
+          </div>
+        )}
+
+        {cameraError && (
+          <div
+            className={`mb-4 p-3 border rounded-lg text-sm ${
+              cameraError.denied
+                ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+                : "bg-gray-50 border-gray-200 text-gray-700"
+            }`}
+          >
+            {cameraError.message}
           </div>
-        </div>
+        )}
 
         {error && (
           <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
@@ -110,12 +390,54 @@ const QRCodeScanner: React.FC<QRCodeScannerProps> = ({
           </div>
         )}
 
+        {/* Fallback for devices without a usable camera */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleFileChange}
+          className="hidden"
+        />
         <button
-          onClick={onClose}
-          className="w-full py-3 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded-lg transition-colors"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={decodingImage}
+          className="w-full py-2 mb-2 text-sm text-gray-700 underline"
         >
-          Cancel
+          {decodingImage
+            ? "Reading image..."
+            : "Upload a screenshot (or paste one)"}
         </button>
+
+        {continuous && (
+          <div className="mb-4 text-sm">
+            <div className="font-bold text-center mb-2">
+              {tally.length} {tally.length === 1 ? "person" : "people"} scanned
+            </div>
+            <ul>
+              {tally.slice(0, 5).map((scan) => (
+                <li
+                  key={scan.address}
+                  className="flex justify-between gap-2 py-1 border-b border-gray-100"
+                >
+                  <span className="font-mono">
+                    {scan.address.substring(0, 6)}...
+                    {scan.address.substring(38)}
+                  </span>
+                  <span className="text-gray-600">{scan.action}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!inline && (
+          <button
+            onClick={onClose}
+            className="w-full py-3 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded-lg transition-colors"
+          >
+            {continuous ? "Done" : "Cancel"}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from "react";
+import {
+  LogAction,
+  LogEntry,
+  LogOutcome,
+  downloadFile,
+  toCsv,
+  toJson,
+} from "./onboardingLog";
+
+interface SessionLogProps {
+  entries: LogEntry[];
+  onClear: () => void;
+}
+
+const ACTION_LABELS: Record<LogAction, string> = {
+  invite: "Invite",
+  "group-add": "Group add",
+  "group-remove": "Group remove",
+};
+
+const SessionLog: React.FC<SessionLogProps> = ({ entries, onClear }) => {
+  const [actionFilter, setActionFilter] = useState<LogAction | "all">("all");
+  const [outcomeFilter, setOutcomeFilter] = useState<LogOutcome | "all">("all");
+  const [search, setSearch] = useState("");
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (actionFilter === "all" || entry.action === actionFilter) &&
+        (outcomeFilter === "all" || entry.outcome === outcomeFilter) &&
+        (!query ||
+          [entry.address, entry.groupName, entry.context, entry.operator]
+            .filter(Boolean)
+            .some((value) => value!.toLowerCase().includes(query))),
+    );
+  }, [entries, actionFilter, outcomeFilter, search]);
+
+  const exportName = `onboarding-log-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleClear = () => {
+    if (window.confirm("Delete all log entries stored on this device?")) {
+      onClear();
+    }
+  };
+
+  return (
+    <div className="tab-content session-log">
+      <div className="log-filters">
+        <select
+          value={actionFilter}
+          onChange={(e) => setActionFilter(e.target.value as LogAction | "all")}
+          className="expiry-select"
+        >
+          <option value="all">All actions</option>
+          <option value="invite">Invites</option>
+          <option value="group-add">Group adds</option>
+          <option value="group-remove">Group removals</option>
+        </select>
+        <select
+          value={outcomeFilter}
+          onChange={(e) =>
+            setOutcomeFilter(e.target.value as LogOutcome | "all")
+          }
+          className="expiry-select"
+        >
+          <option value="all">All outcomes</option>
+          <option value="success">Success</option>
+          <option value="proposed">Proposed</option>
+          <option value="failed">Failed</option>
+          <option value="skipped">Skipped</option>
+          <option value="queued">Awaiting approval</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Search address, group, context..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="wallet-input"
+        />
+      </div>
+
+      <div className="log-actions">
+        <span>
+          {filteredEntries.length} of {entries.length} entries
+        </span>
+        <button
+          onClick={() =>
+            downloadFile(
+              `${exportName}.csv`,
+              toCsv(filteredEntries),
+              "text/csv",
+            )
+          }
+          disabled={filteredEntries.length === 0}
+          className="queue-clear-button"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={() =>
+            downloadFile(
+              `${exportName}.json`,
+              toJson(filteredEntries),
+              "application/json",
+            )
+          }
+          disabled={filteredEntries.length === 0}
+          className="queue-clear-button"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          className="queue-clear-button"
+        >
+          Clear
+        </button>
+      </div>
+
+      <ul className="log-list">
+        {filteredEntries.map((entry) => (
+          <li key={entry.id} className={`log-entry log-${entry.outcome}`}>
+            <div className="log-entry-header">
+              <strong>{ACTION_LABELS[entry.action]}</strong>
+              <span>{entry.outcome}</span>
+              <span className="log-time">
+                {new Date(entry.timestamp).toLocaleString()}
+              </span>
+            </div>
+            <div className="queue-address">{entry.address}</div>
+            {entry.groupName && (
+              <div className="log-detail">Group: {entry.groupName}</div>
+            )}
+            {entry.context && (
+              <div className="log-detail">Context: {entry.context}</div>
+            )}
+            {entry.operator && (
+              <div className="log-detail">Operator: {entry.operator}</div>
+            )}
+            {entry.txHash && (
+              <a
+                href={`https://gnosisscan.io/tx/${entry.txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="log-detail break-all"
+              >
+                {entry.txHash}
+              </a>
+            )}
+            {entry.safeTxHash && !entry.txHash && (
+              <div className="log-detail break-all">
+                Safe TX: {entry.safeTxHash}
+              </div>
+            )}
+            {entry.message && <div className="log-detail">{entry.message}</div>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionLog;
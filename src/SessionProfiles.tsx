@@ -0,0 +1,401 @@
+import React, { useState } from "react";
+import { hashPin, MIN_PIN_LENGTH } from "./kiosk";
+import { downloadFile } from "./onboardingLog";
+import {
+  ActiveProfile,
+  ProfileSettingKey,
+  SETTING_LABELS,
+  SessionProfile,
+  checkProfilePin,
+  encodeProfile,
+  parseProfile,
+  profileLink,
+} from "./sessionProfiles";
+
+interface SessionProfilesProps {
+  profiles: SessionProfile[];
+  active: ActiveProfile | null;
+  loadError?: string;
+  onApply: (active: ActiveProfile) => void;
+  onSaveCurrent: (
+    name: string,
+    locked: ProfileSettingKey[],
+    pinHash?: string,
+  ) => void;
+  onUpdateActive: () => void;
+  onDelete: (id: string) => void;
+  onLeave: () => void;
+  // Apply (or drop) the group and Safe suggested by an untrusted link
+  onResolveSuggested: (accept: boolean) => void;
+  // Sign the profile text with the connected wallet (missing when not connected)
+  onSign?: (message: string) => Promise<string>;
+}
+
+const SessionProfiles: React.FC<SessionProfilesProps> = ({
+  profiles,
+  active,
+  loadError,
+  onApply,
+  onSaveCurrent,
+  onUpdateActive,
+  onDelete,
+  onLeave,
+  onResolveSuggested,
+  onSign,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState("");
+  const [locked, setLocked] = useState<ProfileSettingKey[]>([]);
+  const [newPin, setNewPin] = useState("");
+  const [message, setMessage] = useState<string | null>(loadError || null);
+  // Change waiting for the organizer PIN of a locked profile
+  const [unlock, setUnlock] = useState<{
+    profile: SessionProfile;
+    action: () => void;
+  } | null>(null);
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState(false);
+
+  const activeProfile = active?.profile;
+  const isLocked = !!activeProfile && activeProfile.locked.length > 0;
+
+  // Changing, leaving or overwriting a locked profile needs its PIN
+  const requireUnlock = (
+    profile: SessionProfile | undefined,
+    action: () => void,
+  ) => {
+    if (!profile || profile.locked.length === 0) {
+      action();
+      return;
+    }
+    setPin("");
+    setPinError(false);
+    setUnlock({ profile, action });
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!unlock) return;
+    if (checkProfilePin(unlock.profile, pin)) {
+      setUnlock(null);
+      setPin("");
+      unlock.action();
+    } else {
+      setPin("");
+      setPinError(true);
+    }
+  };
+
+  const toggleLocked = (key: ProfileSettingKey) => {
+    setLocked((current) =>
+      current.includes(key)
+        ? current.filter((entry) => entry !== key)
+        : [...current, key],
+    );
+  };
+
+  const handleSelect = (id: string) => {
+    const profile = profiles.find((entry) => entry.id === id);
+    if (profile) {
+      requireUnlock(activeProfile, () => onApply({ profile, source: "saved" }));
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setMessage("Please name the profile");
+      return;
+    }
+    if (locked.length > 0 && newPin.trim().length < MIN_PIN_LENGTH) {
+      setMessage(
+        `Locking settings needs an organizer PIN of at least ${MIN_PIN_LENGTH} digits`,
+      );
+      return;
+    }
+
+    // Saving under the name of a locked profile replaces it
+    const replaced = profiles.find(
+      (profile) => profile.name.toLowerCase() === trimmed.toLowerCase(),
+    );
+    requireUnlock(replaced, () => {
+      onSaveCurrent(
+        trimmed,
+        locked,
+        locked.length > 0 ? hashPin(newPin) : undefined,
+      );
+      setMessage(`Saved "${trimmed}"`);
+      setName("");
+      setLocked([]);
+      setNewPin("");
+    });
+  };
+
+  const shortAddress = (address: string) =>
+    `${address.substring(0, 6)}...${address.substring(38)}`;
+
+  const importFile = async (file: File) => {
+    try {
+      const profile = parseProfile(JSON.parse(await file.text()));
+      onApply({ profile, source: "file" });
+      setMessage(`Imported "${profile.name}"`);
+    } catch (error) {
+      setMessage(`Could not import the profile: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (file) requireUnlock(activeProfile, () => importFile(file));
+  };
+
+  const copyLink = async (signed: boolean) => {
+    if (!activeProfile) return;
+    try {
+      const signature =
+        signed && onSign
+          ? await onSign(encodeProfile(activeProfile))
+          : undefined;
+      await navigator.clipboard.writeText(
+        profileLink(activeProfile, signature),
+      );
+      setMessage(signed ? "Signed link copied" : "Link copied");
+    } catch (error) {
+      setMessage(`Could not copy the link: ${(error as Error).message}`);
+    }
+  };
+
+  const sourceText = !active
+    ? null
+    : active.signer
+      ? `signed by ${active.signer.substring(0, 6)}...${active.signer.substring(
+          38,
+        )}${active.trustedSigner ? "" : ", unknown signer"}`
+      : { saved: "saved", url: "from link", file: "from file" }[active.source];
+
+  return (
+    <div className="org-settings">
+      <div className="org-summary">
+        <span>
+          Profile: <strong>{activeProfile?.name || "None"}</strong>{" "}
+          {sourceText && <span className="org-address">({sourceText})</span>}
+          {isLocked && " 🔒"}
+        </span>
+        <button
+          onClick={() => setEditing(!editing)}
+          className="queue-clear-button"
+        >
+          {editing ? "Close" : "Change"}
+        </button>
+      </div>
+      {active?.source === "url" && !active.trustedSigner && (
+        <p className="toggle-help-text">
+          {active.signer
+            ? "This link was signed by an address that is not configured as a trusted profile signer"
+            : "This link is not signed by a trusted profile signer"}
+          , so its locks were ignored.
+        </p>
+      )}
+      {active?.suggested && (
+        <div className="org-form">
+          <p className="toggle-help-text">
+            The link also asks to switch to
+            {active.suggested.groupAddress &&
+              ` group ${shortAddress(active.suggested.groupAddress)}`}
+            {active.suggested.groupAddress &&
+              active.suggested.safeAddress &&
+              " and"}
+            {active.suggested.safeAddress &&
+              ` Safe ${shortAddress(active.suggested.safeAddress)}`}
+            . Only switch if you trust whoever sent it.
+          </p>
+          <div className="action-buttons-container">
+            <button
+              onClick={() => onResolveSuggested(true)}
+              className="action-button group-button"
+            >
+              Switch
+            </button>
+            <button
+              onClick={() => onResolveSuggested(false)}
+              className="action-button cancel-button"
+            >
+              Keep Current
+            </button>
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <div className="org-form">
+          {message && <p className="toggle-help-text">{message}</p>}
+
+          {unlock && (
+            <form onSubmit={handleUnlock} className="org-form">
+              <label>
+                Organizer PIN to unlock "{unlock.profile.name}"
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  autoFocus
+                  value={pin}
+                  onChange={(e) => {
+                    setPin(e.target.value);
+                    setPinError(false);
+                  }}
+                  className="wallet-input"
+                />
+              </label>
+              {pinError && <p className="error-message">Wrong PIN</p>}
+              <div className="action-buttons-container">
+                <button type="submit" className="action-button group-button">
+                  Unlock
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setUnlock(null)}
+                  className="action-button cancel-button"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {profiles.length > 0 && (
+            <label>
+              Saved profiles
+              <select
+                value={activeProfile?.id || ""}
+                onChange={(e) => handleSelect(e.target.value)}
+                className="expiry-select"
+              >
+                <option value="" disabled>
+                  Choose a profile
+                </option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {activeProfile && (
+            <div className="action-buttons-container">
+              <button
+                onClick={() => requireUnlock(activeProfile, onUpdateActive)}
+                className="action-button cancel-button"
+              >
+                Save Current Settings
+              </button>
+              <button
+                onClick={() =>
+                  downloadFile(
+                    `${activeProfile.name.replace(/[^a-z0-9]+/gi, "-")}.json`,
+                    JSON.stringify(activeProfile, null, 2),
+                    "application/json",
+                  )
+                }
+                className="action-button cancel-button"
+              >
+                Export JSON
+              </button>
+              <button
+                onClick={() => copyLink(false)}
+                className="action-button cancel-button"
+              >
+                Copy Link
+              </button>
+              {onSign && (
+                <button
+                  onClick={() => copyLink(true)}
+                  className="action-button cancel-button"
+                >
+                  Copy Signed Link
+                </button>
+              )}
+              <button
+                onClick={() => requireUnlock(activeProfile, onLeave)}
+                className="action-button cancel-button"
+              >
+                Leave Profile
+              </button>
+              <button
+                onClick={() =>
+                  requireUnlock(
+                    activeProfile,
+                    () =>
+                      window.confirm(
+                        `Delete the profile "${activeProfile.name}"?`,
+                      ) && onDelete(activeProfile.id),
+                  )
+                }
+                className="action-button remove-button"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+
+          <label>
+            New profile from current settings
+            <input
+              type="text"
+              placeholder="Profile name, e.g. Berlin Meetup"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="wallet-input"
+            />
+          </label>
+          <div className="profile-locks">
+            <span>Lock for volunteers:</span>
+            {(Object.keys(SETTING_LABELS) as ProfileSettingKey[]).map((key) => (
+              <label key={key} className="org-checkbox">
+                <input
+                  type="checkbox"
+                  checked={locked.includes(key)}
+                  onChange={() => toggleLocked(key)}
+                />
+                {SETTING_LABELS[key]}
+              </label>
+            ))}
+          </div>
+          {locked.length > 0 && (
+            <label>
+              Organizer PIN to unlock the profile
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value)}
+                className="wallet-input"
+              />
+            </label>
+          )}
+          <div className="action-buttons-container">
+            <button onClick={handleSave} className="action-button group-button">
+              Save Profile
+            </button>
+          </div>
+
+          <label>
+            Import profile (JSON)
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionProfiles;
@@ -0,0 +1,291 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  CirclesRpcError,
+  CirclesRpcErrorKind,
+  Filter,
+  OrderBy,
+  createCirclesRpc,
+  equals,
+  mapRows,
+} from "./circlesRpc";
+
+// Local mock of the Circles RPC: circles_query is answered from an in-memory
+// table (filters, order and limit applied like the real service), and each
+// test can override the response
+type Row = Record<string, unknown>;
+type MockResponse = { status?: number; body: unknown };
+
+const COLUMNS = ["blockNumber", "transactionIndex", "logIndex", "truster"];
+
+// Several rows share a blockNumber, or a blockNumber and transactionIndex, so
+// pages break in the middle of ties
+const TABLE: Row[] = [
+  [1, 0, 0, "0xa"],
+  [1, 0, 1, "0xb"],
+  [1, 1, 0, "0xa"],
+  [2, 0, 0, "0xa"],
+  [2, 0, 1, "0xb"],
+  [2, 0, 2, "0xa"],
+  [2, 3, 0, "0xa"],
+  [3, 0, 0, "0xb"],
+].map((values) => Object.fromEntries(COLUMNS.map((c, i) => [c, values[i]])));
+
+const matches = (row: Row, filter: Filter): boolean => {
+  if (filter.Type === "Conjunction") {
+    return filter.ConjunctionType === "And"
+      ? filter.Predicates.every((predicate) => matches(row, predicate))
+      : filter.Predicates.some((predicate) => matches(row, predicate));
+  }
+  const value = row[filter.Column] as number | string;
+  switch (filter.FilterType) {
+    case "Equals":
+      return value === filter.Value;
+    case "GreaterThan":
+      return value > (filter.Value as number | string);
+    case "In":
+      return (filter.Value as unknown[]).includes(value);
+    default:
+      throw new Error(`Unsupported filter ${filter.FilterType}`);
+  }
+};
+
+const runQuery = (params: {
+  Columns: string[];
+  Filter: Filter[];
+  Order: OrderBy[];
+  Limit?: number;
+}) => {
+  const columns = params.Columns.length > 0 ? params.Columns : COLUMNS;
+  const rows = TABLE.filter((row) =>
+    params.Filter.every((filter) => matches(row, filter)),
+  ).sort((a, b) => {
+    for (const { Column, SortOrder } of params.Order) {
+      const diff = (a[Column] as number) - (b[Column] as number);
+      if (diff !== 0) return SortOrder === "ASC" ? diff : -diff;
+    }
+    return 0;
+  });
+  return {
+    columns,
+    rows: rows
+      .slice(0, params.Limit ?? rows.length)
+      .map((row) => columns.map((column) => row[column])),
+  };
+};
+
+let server: Server;
+let rpcUrl: string;
+let queries: unknown[] = [];
+let override: ((path: string) => MockResponse | null) | null = null;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const path = req.url || "/";
+      let response = override?.(path) || null;
+      if (!response) {
+        const request = JSON.parse(body);
+        queries.push(request.params[0]);
+        response = {
+          body: {
+            jsonrpc: "2.0",
+            id: request.id,
+            result: runQuery(request.params[0]),
+          },
+        };
+      }
+      res.writeHead(response.status ?? 200, {
+        "Content-Type": "application/json",
+      });
+      res.end(
+        typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  queries = [];
+  override = null;
+});
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as CirclesRpcError;
+  }
+  throw new Error("Expected the call to fail");
+};
+
+const expectKind = async (
+  promise: Promise<unknown>,
+  kind: CirclesRpcErrorKind,
+) => {
+  const error = await rejection(promise);
+  expect(error).toBeInstanceOf(CirclesRpcError);
+  expect(error.kind).toBe(kind);
+  return error;
+};
+
+describe("mapRows", () => {
+  it("keys each row by column name", () => {
+    expect(
+      mapRows(
+        ["avatar", "name"],
+        [
+          ["0x1", "Alice"],
+          ["0x2", null],
+        ],
+      ),
+    ).toEqual([
+      { avatar: "0x1", name: "Alice" },
+      { avatar: "0x2", name: null },
+    ]);
+  });
+
+  it("returns no records for no rows", () => {
+    expect(mapRows(["avatar"], [])).toEqual([]);
+  });
+});
+
+describe("pagination", () => {
+  const rpc = () => createCirclesRpc(rpcUrl);
+  const key = (row: Row) =>
+    `${row.blockNumber}/${row.transactionIndex}/${row.logIndex}`;
+
+  it("returns every row once across pages that split ties", async () => {
+    const rows = await rpc().queryAll<Row>(
+      { namespace: "V_CrcV2", table: "TrustRelations" },
+      2,
+    );
+
+    expect(rows.map(key)).toEqual(TABLE.map(key));
+    // 8 rows in pages of 2, plus the empty page that ends the query
+    expect(queries).toHaveLength(5);
+  });
+
+  it("pages in the middle of a block and transaction", async () => {
+    const rows = await rpc().queryAll<Row>(
+      { namespace: "V_CrcV2", table: "TrustRelations" },
+      3,
+    );
+
+    expect(rows.map(key)).toEqual(TABLE.map(key));
+    expect(queries).toHaveLength(3);
+  });
+
+  it("keeps the caller's filter on every page", async () => {
+    const rows = await rpc().queryAll<Row>(
+      {
+        namespace: "V_CrcV2",
+        table: "TrustRelations",
+        filter: [equals("truster", "0xa")],
+      },
+      2,
+    );
+
+    expect(rows.map(key)).toEqual(
+      TABLE.filter((row) => row.truster === "0xa").map(key),
+    );
+  });
+
+  it("yields pages of at most the page size", async () => {
+    const sizes: number[] = [];
+    for await (const page of rpc().paginate<Row>(
+      { namespace: "V_CrcV2", table: "TrustRelations" },
+      3,
+    )) {
+      sizes.push(page.length);
+    }
+    expect(sizes).toEqual([3, 3, 2]);
+  });
+});
+
+describe("errors", () => {
+  it("reports an unreachable server as a network error", async () => {
+    // Nothing listens on port 1
+    const rpc = createCirclesRpc("http://127.0.0.1:1");
+    await expectKind(rpc.getAvatar("0x1"), "network");
+    await expectKind(rpc.getProfile("0x1"), "network");
+  });
+
+  it("reports a failed HTTP status as an http error", async () => {
+    override = () => ({ status: 502, body: "Bad gateway" });
+    const rpc = createCirclesRpc(rpcUrl);
+
+    const error = await expectKind(rpc.getAvatar("0x1"), "http");
+    expect(error.status).toBe(502);
+    await expectKind(rpc.getProfile("0x1"), "http");
+  });
+
+  it("reports a JSON-RPC error as an rpc error with its code", async () => {
+    override = () => ({
+      body: {
+        jsonrpc: "2.0",
+        id: 1,
+        error: { code: -32602, message: "Invalid table" },
+      },
+    });
+
+    const error = await expectKind(
+      createCirclesRpc(rpcUrl).getAvatar("0x1"),
+      "rpc",
+    );
+    expect(error.code).toBe(-32602);
+    expect(error.message).toContain("Invalid table");
+  });
+
+  it("reports a body that is not JSON as a response error", async () => {
+    override = () => ({ body: "<html>Maintenance</html>" });
+    const rpc = createCirclesRpc(rpcUrl);
+
+    await expectKind(rpc.getAvatar("0x1"), "response");
+    await expectKind(rpc.getProfile("0x1"), "response");
+  });
+
+  it("reports a result without columns or rows as a response error", async () => {
+    override = () => ({ body: { jsonrpc: "2.0", id: 1, result: {} } });
+    await expectKind(createCirclesRpc(rpcUrl).getAvatar("0x1"), "response");
+  });
+
+  it("reports a profile search that is not a list as a response error", async () => {
+    override = (path) =>
+      path.startsWith("/profiles/") ? { body: { error: "nope" } } : null;
+    await expectKind(createCirclesRpc(rpcUrl).getProfile("0x1"), "response");
+  });
+});
+
+describe("getProfile", () => {
+  it("returns the entry for the address, matched case-insensitively", async () => {
+    override = (path) =>
+      path.startsWith("/profiles/search?address=0xabc")
+        ? {
+            body: [
+              { address: "0xdef", name: "Other" },
+              { address: "0xABC", name: "Alice" },
+            ],
+          }
+        : null;
+
+    const profile = await createCirclesRpc(rpcUrl).getProfile("0xAbC");
+    expect(profile?.name).toBe("Alice");
+  });
+
+  it("returns null when the address has no profile", async () => {
+    override = () => ({ body: [] });
+    expect(await createCirclesRpc(rpcUrl).getProfile("0xabc")).toBeNull();
+  });
+});
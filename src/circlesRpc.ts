@@ -0,0 +1,368 @@
+// Typed client for the Circles RPC (circles_query and the profiles service)
+
+export type FilterType =
+  | "Equals"
+  | "NotEquals"
+  | "GreaterThan"
+  | "GreaterThanOrEqual"
+  | "LessThan"
+  | "LessThanOrEqual"
+  | "Like"
+  | "In"
+  | "NotIn";
+
+export interface FilterPredicate {
+  Type: "FilterPredicate";
+  FilterType: FilterType;
+  Column: string;
+  Value: unknown;
+}
+
+export interface Conjunction {
+  Type: "Conjunction";
+  ConjunctionType: "And" | "Or";
+  Predicates: Filter[];
+}
+
+export type Filter = FilterPredicate | Conjunction;
+
+export interface OrderBy {
+  Column: string;
+  SortOrder: "ASC" | "DESC";
+}
+
+export interface QueryParams {
+  namespace: string;
+  table: string;
+  columns?: string[];
+  filter?: Filter[];
+  order?: OrderBy[];
+  limit?: number;
+}
+
+// Filter builders
+export const equals = (column: string, value: unknown): FilterPredicate => ({
+  Type: "FilterPredicate",
+  FilterType: "Equals",
+  Column: column,
+  Value: value,
+});
+
+export const inList = (column: string, values: unknown[]): FilterPredicate => ({
+  Type: "FilterPredicate",
+  FilterType: "In",
+  Column: column,
+  Value: values,
+});
+
+export const greaterThan = (
+  column: string,
+  value: unknown,
+): FilterPredicate => ({
+  Type: "FilterPredicate",
+  FilterType: "GreaterThan",
+  Column: column,
+  Value: value,
+});
+
+export const and = (...predicates: Filter[]): Conjunction => ({
+  Type: "Conjunction",
+  ConjunctionType: "And",
+  Predicates: predicates,
+});
+
+export const or = (...predicates: Filter[]): Conjunction => ({
+  Type: "Conjunction",
+  ConjunctionType: "Or",
+  Predicates: predicates,
+});
+
+// Structured error for anything that goes wrong talking to the RPC
+export type CirclesRpcErrorKind = "network" | "http" | "rpc" | "response";
+
+export class CirclesRpcError extends Error {
+  kind: CirclesRpcErrorKind;
+  status?: number;
+  code?: number;
+
+  constructor(
+    kind: CirclesRpcErrorKind,
+    message: string,
+    details: { status?: number; code?: number; cause?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "CirclesRpcError";
+    this.kind = kind;
+    this.status = details.status;
+    this.code = details.code;
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+}
+
+// A row of V_CrcV2.TrustRelations
+export interface TrustRelationRow {
+  blockNumber: number;
+  timestamp: number;
+  transactionIndex: number;
+  logIndex: number;
+  transactionHash: string;
+  truster: string;
+  trustee: string;
+  expiryTime: number;
+}
+
+// A row of V_CrcV2.Avatars (registered humans, groups and organizations)
+export interface AvatarRow {
+  blockNumber: number;
+  timestamp: number;
+  transactionIndex: number;
+  logIndex: number;
+  transactionHash: string;
+  type: string;
+  avatar: string;
+  name?: string;
+}
+
+// An entry returned by the profiles service
+export interface CirclesProfile {
+  address: string;
+  name?: string;
+  description?: string;
+  previewImageUrl?: string;
+  imageUrl?: string;
+  [key: string]: unknown;
+}
+
+// Cursor columns used to page through event tables in a stable order
+const CURSOR_COLUMNS = ["blockNumber", "transactionIndex", "logIndex"];
+
+// Map a columns/rows response into records keyed by column name
+export const mapRows = <T>(columns: string[], rows: unknown[][]): T[] =>
+  rows.map((row) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      record[column] = row[index];
+    });
+    return record as T;
+  });
+
+// Build the filter that selects rows after the given cursor row
+const afterCursor = (cursor: Record<string, unknown>): Filter =>
+  or(
+    ...CURSOR_COLUMNS.map((column, index) =>
+      and(
+        ...CURSOR_COLUMNS.slice(0, index).map((previous) =>
+          equals(previous, cursor[previous]),
+        ),
+        greaterThan(column, cursor[column]),
+      ),
+    ),
+  );
+
+export const createCirclesRpc = (rpcUrl: string) => {
+  let requestId = 0;
+
+  const post = async (body: unknown) => {
+    const url = rpcUrl;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new CirclesRpcError(
+        "network",
+        `Could not reach ${url}: ${(error as Error).message}`,
+        { cause: error },
+      );
+    }
+
+    if (!response.ok) {
+      throw new CirclesRpcError(
+        "http",
+        `HTTP error! status: ${response.status}`,
+        {
+          status: response.status,
+        },
+      );
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new CirclesRpcError("response", "Invalid JSON in RPC response", {
+        cause: error,
+      });
+    }
+  };
+
+  // Run a single circles_query and map the result into typed records
+  const query = async <T>(params: QueryParams): Promise<T[]> => {
+    const data = await post({
+      jsonrpc: "2.0",
+      id: ++requestId,
+      method: "circles_query",
+      params: [
+        {
+          Namespace: params.namespace,
+          Table: params.table,
+          Columns: params.columns || [],
+          Filter: params.filter || [],
+          Order: params.order || [],
+          ...(params.limit ? { Limit: params.limit } : {}),
+        },
+      ],
+    });
+
+    if (data.error) {
+      throw new CirclesRpcError("rpc", `RPC error: ${data.error.message}`, {
+        code: data.error.code,
+      });
+    }
+
+    const { columns, rows } = data.result || {};
+    if (!Array.isArray(columns) || !Array.isArray(rows)) {
+      throw new CirclesRpcError(
+        "response",
+        "RPC response is missing columns or rows",
+      );
+    }
+    return mapRows<T>(columns, rows);
+  };
+
+  // Page through a table with a blockNumber/transactionIndex/logIndex cursor
+  async function* paginate<T>(
+    params: Omit<QueryParams, "order" | "limit">,
+    pageSize = 1000,
+  ): AsyncGenerator<T[]> {
+    let cursor: Record<string, unknown> | null = null;
+
+    while (true) {
+      const page: T[] = await query<T>({
+        ...params,
+        filter: cursor
+          ? [and(...(params.filter || []), afterCursor(cursor))]
+          : params.filter,
+        order: CURSOR_COLUMNS.map((column) => ({
+          Column: column,
+          SortOrder: "ASC" as const,
+        })),
+        limit: pageSize,
+      });
+
+      if (page.length > 0) yield page;
+      if (page.length < pageSize) return;
+
+      cursor = page[page.length - 1] as Record<string, unknown>;
+    }
+  }
+
+  // Collect every page of a query
+  const queryAll = async <T>(
+    params: Omit<QueryParams, "order" | "limit">,
+    pageSize?: number,
+  ): Promise<T[]> => {
+    const results: T[] = [];
+    for await (const page of paginate<T>(params, pageSize)) {
+      results.push(...page);
+    }
+    return results;
+  };
+
+  // Trust relations with numeric fields normalised
+  const trustRelations = async (filter: Filter[]) => {
+    const rows = await queryAll<TrustRelationRow>({
+      namespace: "V_CrcV2",
+      table: "TrustRelations",
+      filter,
+    });
+    return rows.map((row) => ({
+      ...row,
+      blockNumber: Number(row.blockNumber),
+      timestamp: Number(row.timestamp),
+      transactionIndex: Number(row.transactionIndex),
+      logIndex: Number(row.logIndex),
+      expiryTime: Number(row.expiryTime),
+    }));
+  };
+
+  // Look up the Circles v2 registration of an address (null when unregistered)
+  const getAvatar = async (address: string): Promise<AvatarRow | null> => {
+    const rows = await query<AvatarRow>({
+      namespace: "V_CrcV2",
+      table: "Avatars",
+      filter: [equals("avatar", address.toLowerCase())],
+      limit: 1,
+    });
+    return rows[0] || null;
+  };
+
+  // Look up the profile of an address (null when it has none)
+  const getProfile = async (
+    address: string,
+  ): Promise<CirclesProfile | null> => {
+    const queryAddress = address.toLowerCase();
+    const url = `${rpcUrl}/profiles/search?address=${queryAddress}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      throw new CirclesRpcError(
+        "network",
+        `Could not reach ${url}: ${(error as Error).message}`,
+        { cause: error },
+      );
+    }
+
+    if (!response.ok) {
+      throw new CirclesRpcError(
+        "http",
+        `HTTP error! status: ${response.status}`,
+        {
+          status: response.status,
+        },
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      throw new CirclesRpcError(
+        "response",
+        "Invalid JSON in profile search response",
+        { cause: error },
+      );
+    }
+    if (!Array.isArray(data)) {
+      throw new CirclesRpcError(
+        "response",
+        "Profile search did not return a list",
+      );
+    }
+    return (
+      data.find(
+        (entry: CirclesProfile) =>
+          entry.address?.toLowerCase() === queryAddress,
+      ) || null
+    );
+  };
+
+  return {
+    query,
+    paginate,
+    queryAll,
+    trustRelations,
+    getAvatar,
+    getProfile,
+  };
+};
+
+export type CirclesRpc = ReturnType<typeof createCirclesRpc>;
@@ -2,6 +2,21 @@
 
 interface ImportMetaEnv {
   readonly VITE_NFT_CONTRACT_ADDRESS: string;
+  // Organization whose trusted groups are listed
+  readonly VITE_ORG_ADDRESS?: string;
+  // Comma-separated group addresses to hide
+  readonly VITE_EXCLUDED_GROUPS?: string;
+  // Group shown when the organization trusts no groups
+  readonly VITE_FALLBACK_GROUP_ADDRESS?: string;
+  readonly VITE_FALLBACK_GROUP_NAME?: string;
+  // Enables the WalletConnect connector
+  readonly VITE_WALLETCONNECT_PROJECT_ID?: string;
+  // "true" enables the burner wallet connector (test deployments only)
+  readonly VITE_BURNER_WALLET?: string;
+  // Fixed burner key, only used by the dev server (never in production builds)
+  readonly VITE_BURNER_PRIVATE_KEY?: string;
+  // Comma-separated addresses whose signed profile links are trusted
+  readonly VITE_PROFILE_SIGNERS?: string;
   // Add more environment variables as needed
 }
 
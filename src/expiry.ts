@@ -0,0 +1,100 @@
+// Trust expiries at or beyond this timestamp are treated as "never"
+export const NEVER_EXPIRES = 9999999999;
+
+const STORAGE_KEY = "groupExpiryDefaults";
+
+export type ExpiryMode = "never" | "date" | "duration";
+export type DurationUnit = "hours" | "days" | "weeks" | "months";
+
+export interface ExpirySetting {
+  mode: ExpiryMode;
+  date: string; // yyyy-mm-dd, used when mode is "date"
+  durationAmount: number; // used when mode is "duration"
+  durationUnit: DurationUnit;
+}
+
+export const DEFAULT_EXPIRY_SETTING: ExpirySetting = {
+  mode: "never",
+  date: "",
+  durationAmount: 30,
+  durationUnit: "days",
+};
+
+const UNIT_SECONDS: Record<DurationUnit, number> = {
+  hours: 60 * 60,
+  days: 24 * 60 * 60,
+  weeks: 7 * 24 * 60 * 60,
+  months: 30 * 24 * 60 * 60,
+};
+
+// Format a unix timestamp (seconds) as a readable date
+export const formatTimestamp = (timestamp: number) =>
+  timestamp >= NEVER_EXPIRES
+    ? "never"
+    : new Date(timestamp * 1000).toLocaleDateString();
+
+// Turn an expiry setting into the uint96 value for trustBatchWithConditions
+export const resolveExpiry = (
+  setting: ExpirySetting,
+  now: number = Date.now(),
+): { expiry: number } | { error: string } => {
+  const nowSeconds = Math.floor(now / 1000);
+
+  if (setting.mode === "never") {
+    return { expiry: NEVER_EXPIRES };
+  }
+
+  if (setting.mode === "date") {
+    if (!setting.date) {
+      return { error: "Please pick an expiry date" };
+    }
+    // Memberships last until the end of the chosen day (local time)
+    const expiry = Math.floor(
+      new Date(`${setting.date}T23:59:59`).getTime() / 1000,
+    );
+    if (isNaN(expiry)) {
+      return { error: `Invalid expiry date: ${setting.date}` };
+    }
+    if (expiry <= nowSeconds) {
+      return { error: "Expiry date must be in the future" };
+    }
+    return { expiry };
+  }
+
+  if (!(setting.durationAmount > 0)) {
+    return { error: "Expiry duration must be greater than zero" };
+  }
+  return {
+    expiry:
+      nowSeconds +
+      Math.floor(setting.durationAmount * UNIT_SECONDS[setting.durationUnit]),
+  };
+};
+
+// Load the remembered expiry setting for a group
+export const loadGroupExpiry = (groupAddress: string): ExpirySetting => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    const setting = stored[groupAddress.toLowerCase()];
+    return setting
+      ? { ...DEFAULT_EXPIRY_SETTING, ...setting }
+      : DEFAULT_EXPIRY_SETTING;
+  } catch (error) {
+    console.error("Error loading expiry defaults:", error);
+    return DEFAULT_EXPIRY_SETTING;
+  }
+};
+
+// Remember the expiry setting as the default for a group
+export const saveGroupExpiry = (
+  groupAddress: string,
+  setting: ExpirySetting,
+) => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    stored[groupAddress.toLowerCase()] = setting;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error("Error saving expiry defaults:", error);
+  }
+};
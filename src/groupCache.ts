@@ -0,0 +1,64 @@
+// Group metadata cached per organization, so the group list renders instantly
+
+export interface CachedGroup {
+  address: string;
+  name: string | null;
+  owner?: string;
+  fetchedAt: number;
+}
+
+const STORAGE_KEY = "groupCache";
+
+// Cached groups older than this are refreshed in the background
+export const GROUP_CACHE_TTL_MS = 60 * 60 * 1000;
+
+type GroupCacheStore = Record<string, CachedGroup[]>;
+
+const loadStore = (): GroupCacheStore => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return stored && typeof stored === "object" ? stored : {};
+  } catch (error) {
+    console.error("Error loading group cache:", error);
+    return {};
+  }
+};
+
+// Cached groups of an organization, including stale ones
+export const loadGroupCache = (orgAddress: string): CachedGroup[] =>
+  loadStore()[orgAddress.toLowerCase()] || [];
+
+export const saveGroupCache = (orgAddress: string, groups: CachedGroup[]) => {
+  const store = loadStore();
+  store[orgAddress.toLowerCase()] = groups;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error("Error saving group cache:", error);
+  }
+};
+
+export const isStale = (group: CachedGroup, now = Date.now()) =>
+  now - group.fetchedAt > GROUP_CACHE_TTL_MS;
+
+// Run an async task for each item with at most `limit` tasks in flight
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+};
@@ -0,0 +1,89 @@
+import { CirclesRpc, equals } from "./circlesRpc";
+import { NEVER_EXPIRES } from "./expiry";
+import { escapeCsv } from "./onboardingLog";
+
+// A trustee of a group, as shown on the group dashboard
+export interface GroupMember {
+  address: string;
+  // When the current trust was set (unix seconds)
+  since: number;
+  expiry: number;
+  transactionHash: string;
+}
+
+export interface DailyAdditions {
+  day: string; // yyyy-mm-dd, local time
+  count: number;
+}
+
+export const isActiveMember = (
+  member: GroupMember,
+  now: number = Math.floor(Date.now() / 1000),
+) => member.expiry > now;
+
+// Every address the group trusts, newest first (including expired trust)
+export const fetchGroupMembers = async (
+  rpc: CirclesRpc,
+  groupAddress: string,
+): Promise<GroupMember[]> => {
+  const relations = await rpc.trustRelations([
+    equals("truster", groupAddress.toLowerCase()),
+  ]);
+
+  return (
+    relations
+      // Avatars trust themselves when they register
+      .filter(
+        (relation) =>
+          relation.trustee.toLowerCase() !== groupAddress.toLowerCase(),
+      )
+      .map((relation) => ({
+        address: relation.trustee,
+        since: relation.timestamp,
+        expiry: relation.expiryTime,
+        transactionHash: relation.transactionHash,
+      }))
+      .sort((a, b) => b.since - a.since)
+  );
+};
+
+const toDay = (timestamp: number) => {
+  const date = new Date(timestamp * 1000);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Number of members added per day, oldest day first
+export const additionsByDay = (members: GroupMember[]): DailyAdditions[] => {
+  const counts = new Map<string, number>();
+  members.forEach((member) => {
+    const day = toDay(member.since);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return Array.from(counts, ([day, count]) => ({ day, count })).sort((a, b) =>
+    a.day.localeCompare(b.day),
+  );
+};
+
+export const membersToCsv = (
+  members: GroupMember[],
+  names: Record<string, string | null>,
+): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const rows = members.map((member) =>
+    [
+      member.address,
+      escapeCsv(names[member.address.toLowerCase()]),
+      new Date(member.since * 1000).toISOString(),
+      member.expiry >= NEVER_EXPIRES
+        ? "never"
+        : new Date(member.expiry * 1000).toISOString(),
+      isActiveMember(member, now) ? "active" : "expired",
+      member.transactionHash,
+    ].join(","),
+  );
+  return ["address,name,addedAt,expiry,status,transactionHash", ...rows].join(
+    "\n",
+  );
+};
@@ -0,0 +1,93 @@
+import { ethers } from "ethers";
+import { NEVER_EXPIRES } from "./expiry";
+
+// Circles v2 Hub on Gnosis Chain
+export const CIRCLES_HUB_ADDRESS = "0xc12C1E50ABB450d6205Ea2C3Fa861b3B834d13e8";
+
+// Minimal Hub ABI for invitations. The Hub has no invite call: the inviter
+// trusts the invitee, who then calls registerHuman(inviter, metadataDigest),
+// which burns INVITATION_COST of the inviter's personal Circles
+export const HUB_ABI = [
+  "function INVITATION_COST() external view returns (uint256)",
+  "function isHuman(address _human) external view returns (bool)",
+  "function avatars(address _avatar) external view returns (address)",
+  "function balanceOf(address _account, uint256 _id) external view returns (uint256)",
+  "function isTrusted(address _truster, address _trustee) external view returns (bool)",
+  "function trust(address _trustReceiver, uint96 _expiry) external",
+];
+
+export type InvitationCheck =
+  | { ok: true; cost: bigint; balance: bigint }
+  | {
+      ok: false;
+      reason: string;
+      // The invitee needs nothing more: registered, or trusted already
+      alreadyDone: boolean;
+    };
+
+// The personal Circles token id of an avatar is its address
+const personalTokenId = (avatar: string) => BigInt(avatar);
+
+// Check that the inviter can pay for the invitation and the invitee is new
+export const checkInvitation = async (
+  provider: ethers.Provider,
+  inviter: string,
+  invitee: string,
+): Promise<InvitationCheck> => {
+  const hub = new ethers.Contract(CIRCLES_HUB_ADDRESS, HUB_ABI, provider);
+
+  const [inviterIsHuman, inviteeAvatar, alreadyTrusted, cost, balance] =
+    await Promise.all([
+      hub.isHuman(inviter) as Promise<boolean>,
+      hub.avatars(invitee) as Promise<string>,
+      hub.isTrusted(inviter, invitee) as Promise<boolean>,
+      hub.INVITATION_COST() as Promise<bigint>,
+      hub.balanceOf(inviter, personalTokenId(inviter)) as Promise<bigint>,
+    ]);
+
+  if (!inviterIsHuman) {
+    return {
+      ok: false,
+      reason: `Inviter ${inviter} is not a registered Circles human`,
+      alreadyDone: false,
+    };
+  }
+
+  if (inviteeAvatar !== ethers.ZeroAddress) {
+    return {
+      ok: false,
+      reason: "This address is already registered in Circles",
+      alreadyDone: true,
+    };
+  }
+
+  if (alreadyTrusted) {
+    return {
+      ok: false,
+      reason:
+        "This address is already invited and can register with you as inviter",
+      alreadyDone: true,
+    };
+  }
+
+  // The cost is only burnt when the invitee registers, but without it the
+  // registration would fail
+  if (balance < cost) {
+    return {
+      ok: false,
+      reason: `Not enough personal Circles to invite: ${Number(
+        ethers.formatEther(balance),
+      ).toFixed(2)} CRC available, ${ethers.formatEther(cost)} CRC required`,
+      alreadyDone: false,
+    };
+  }
+
+  return { ok: true, cost, balance };
+};
+
+// The inviter's trust in the invitee, which lets the invitee register
+export const encodeInvitation = (invitee: string) =>
+  new ethers.Interface(HUB_ABI).encodeFunctionData("trust", [
+    invitee,
+    NEVER_EXPIRES,
+  ]);
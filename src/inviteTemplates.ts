@@ -0,0 +1,216 @@
+// Invitation form templates: URL patterns filled in from the scan and session
+
+export type InviteProvider = "tally" | "generic";
+
+export interface InviteTemplate {
+  id: string;
+  name: string;
+  provider: InviteProvider;
+  // URL with {placeholder}s, e.g. https://tally.so/r/abc?address={address}
+  urlPattern: string;
+}
+
+// Values available to templates; empty ones drop their query parameter
+export interface InviteValues {
+  address: string;
+  context: string;
+  event: string;
+  operator: string;
+  group: string;
+  groupAddress: string;
+  language: string;
+  // Set when a link is shown as a QR code with a token or expiry
+  token: string;
+  expires: string;
+}
+
+export const PLACEHOLDERS: (keyof InviteValues)[] = [
+  "address",
+  "context",
+  "event",
+  "operator",
+  "group",
+  "groupAddress",
+  "language",
+  "token",
+  "expires",
+];
+
+export const PROVIDER_LABELS: Record<InviteProvider, string> = {
+  tally: "Tally",
+  generic: "Other form provider",
+};
+
+const TEMPLATES_KEY = "inviteTemplates";
+const EVENT_TEMPLATES_KEY = "eventInviteTemplates";
+const SESSION_KEY = "inviteSession";
+
+// Open the form on this device, or show it as a QR code for the newcomer
+export type InviteDelivery = "open" | "qr";
+
+// Values the operator sets once per session
+export interface InviteSession {
+  event: string;
+  operator: string;
+  language: string;
+  delivery: InviteDelivery;
+  // Expiry passed with a QR link, in minutes (0 for none); only the form owner
+  // can enforce it
+  linkExpiryMinutes: number;
+  // Give every QR link a random reference token (not checked by this app)
+  oneTimeToken: boolean;
+}
+
+// The form used before templates existed
+export const DEFAULT_TEMPLATE: InviteTemplate = {
+  id: "default",
+  name: "Circles invitation (Tally)",
+  provider: "tally",
+  urlPattern: "https://tally.so/r/wv1k10?address={address}&context={context}",
+};
+
+// Starting pattern for a Tally form, passing every value as a hidden field
+export const tallyPattern = (formId: string) =>
+  `https://tally.so/r/${formId}?${PLACEHOLDERS.map(
+    (placeholder) => `${placeholder}={${placeholder}}`,
+  ).join("&")}`;
+
+// Check a template before it is saved (null when it is valid)
+export const validateTemplate = (template: InviteTemplate): string | null => {
+  if (!template.name.trim()) return "Please name the template";
+
+  const unknown = Array.from(
+    template.urlPattern.matchAll(/\{(\w+)\}/g),
+    (match) => match[1],
+  ).filter(
+    (placeholder) => !PLACEHOLDERS.includes(placeholder as keyof InviteValues),
+  );
+  if (unknown.length > 0) {
+    return `Unknown placeholder: {${unknown[0]}}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(template.urlPattern.replace(/\{(\w+)\}/g, "x"));
+  } catch {
+    return "The URL pattern is not a valid URL";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "The URL pattern must start with https://";
+  }
+  if (template.provider === "tally" && !/(^|\.)tally\.so$/.test(url.hostname)) {
+    return "Tally templates must point to tally.so";
+  }
+  return null;
+};
+
+// Fill in a template; query parameters whose value ends up empty are dropped
+export const fillTemplate = (
+  template: InviteTemplate,
+  values: InviteValues,
+): string => {
+  const filled = template.urlPattern.replace(
+    /\{(\w+)\}/g,
+    (match, placeholder: string) =>
+      placeholder in values
+        ? encodeURIComponent(values[placeholder as keyof InviteValues])
+        : match,
+  );
+
+  const queryStart = filled.indexOf("?");
+  if (queryStart === -1) return filled;
+  const params = filled
+    .slice(queryStart + 1)
+    .split("&")
+    .filter((param) => param !== "" && !param.endsWith("="));
+  const base = filled.slice(0, queryStart);
+  return params.length > 0 ? `${base}?${params.join("&")}` : base;
+};
+
+export const loadTemplates = (): InviteTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || "[]");
+    return Array.isArray(stored) && stored.length > 0
+      ? stored
+      : [DEFAULT_TEMPLATE];
+  } catch (error) {
+    console.error("Error loading invite templates:", error);
+    return [DEFAULT_TEMPLATE];
+  }
+};
+
+export const saveTemplates = (templates: InviteTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+const eventKey = (event: string) => event.trim().toLowerCase();
+
+const loadEventTemplates = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(EVENT_TEMPLATES_KEY) || "{}");
+  } catch (error) {
+    console.error("Error loading event templates:", error);
+    return {};
+  }
+};
+
+// Template chosen for an event (the empty event holds the general default)
+export const loadEventTemplate = (event: string): string | undefined => {
+  const stored = loadEventTemplates();
+  return stored[eventKey(event)] ?? stored[""];
+};
+
+export const saveEventTemplate = (event: string, templateId: string) => {
+  localStorage.setItem(
+    EVENT_TEMPLATES_KEY,
+    JSON.stringify({ ...loadEventTemplates(), [eventKey(event)]: templateId }),
+  );
+};
+
+export const loadInviteSession = (): InviteSession => {
+  const defaults: InviteSession = {
+    event: "",
+    operator: "",
+    language: navigator.language.split("-")[0] || "",
+    delivery: "open",
+    linkExpiryMinutes: 0,
+    oneTimeToken: false,
+  };
+  try {
+    return {
+      ...defaults,
+      ...JSON.parse(localStorage.getItem(SESSION_KEY) || "{}"),
+    };
+  } catch (error) {
+    console.error("Error loading invite session:", error);
+    return defaults;
+  }
+};
+
+export const saveInviteSession = (session: InviteSession) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+// Random hex token identifying a single shared link, for matching submissions
+export const createInviteToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+// Add non-empty query parameters to a filled link
+export const withLinkParams = (
+  url: string,
+  params: Record<string, string>,
+): string => {
+  const parsed = new URL(url);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) parsed.searchParams.set(key, value);
+  });
+  return parsed.toString();
+};
+
+// Compact form of a link for display, e.g. tally.so/r/wv1k10?address=0x12…
+export const shortenLink = (url: string, maxLength = 40) => {
+  const bare = url.replace(/^https?:\/\//, "");
+  return bare.length > maxLength ? `${bare.slice(0, maxLength - 1)}…` : bare;
+};
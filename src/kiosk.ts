@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+
+// Self-service kiosk: newcomers scan themselves at an unattended tablet
+
+export type KioskAction = "invite" | "group";
+
+export interface KioskConfig {
+  active: boolean;
+  action: KioskAction;
+  // The group and invite template the kiosk is limited to
+  groupAddress?: string;
+  groupName?: string;
+  templateId: string;
+  // Queue group adds for the operator instead of signing them right away
+  approval: boolean;
+  // Seconds a result stays on screen before the kiosk returns to idle
+  resetSeconds: number;
+  pinHash: string;
+}
+
+// What the kiosk shows for the person who just scanned
+export type KioskOutcome =
+  | { state: "working"; address: string }
+  | {
+      state: "added" | "proposed" | "queued" | "member" | "saved" | "invite";
+      address: string;
+    }
+  | { state: "failed"; address: string; error: string };
+
+export const RESET_OPTIONS = [10, 20, 30, 60];
+
+export const MIN_PIN_LENGTH = 4;
+
+const KIOSK_KEY = "kioskConfig";
+
+// Only keeps the PIN (of the kiosk or a locked profile) out of plain sight in
+// storage; a short PIN is easy to brute force, so it guards the settings
+// rather than any funds
+export const hashPin = (pin: string) => ethers.id(`kiosk-pin:${pin.trim()}`);
+
+export const checkPin = (config: KioskConfig, pin: string) =>
+  hashPin(pin) === config.pinHash;
+
+export const loadKioskConfig = (): KioskConfig | null => {
+  try {
+    const stored = localStorage.getItem(KIOSK_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error("Error loading kiosk settings:", error);
+    return null;
+  }
+};
+
+export const saveKioskConfig = (config: KioskConfig) => {
+  localStorage.setItem(KIOSK_KEY, JSON.stringify(config));
+};
+
+// Browsers only allow full screen from a user gesture, so failures are expected
+export const enterFullscreen = () => {
+  if (!document.fullscreenElement) {
+    document.documentElement.requestFullscreen?.().catch((error) => {
+      console.warn("Could not enter full screen:", error);
+    });
+  }
+};
+
+export const exitFullscreen = () => {
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch((error) => {
+      console.warn("Could not leave full screen:", error);
+    });
+  }
+};
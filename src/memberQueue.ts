@@ -0,0 +1,82 @@
+import { ethers } from "ethers";
+
+// Default number of members sent per trustBatchWithConditions call
+export const DEFAULT_BATCH_SIZE = 50;
+
+// Pending members, persisted so the queue (and the kiosk's approvals) survive
+// a reload
+const STORAGE_KEY = "pendingMembers";
+
+// Status of a single chunk while a batch is being submitted
+export type ChunkStatus =
+  "pending" | "processing" | "success" | "proposed" | "failed";
+
+export interface BatchChunk {
+  index: number;
+  members: string[];
+  status: ChunkStatus;
+  txHash?: string;
+  safeTxHash?: string;
+  error?: string;
+}
+
+// Add addresses to the queue, skipping invalid ones and duplicates (case insensitive)
+export const enqueueMembers = (
+  queue: string[],
+  addresses: string[],
+): string[] => {
+  const seen = new Set(queue.map((address) => address.toLowerCase()));
+  const next = [...queue];
+
+  addresses.forEach((address) => {
+    const trimmed = address.trim();
+    if (!ethers.isAddress(trimmed)) return;
+
+    const key = trimmed.toLowerCase();
+    if (seen.has(key)) return;
+
+    seen.add(key);
+    next.push(ethers.getAddress(key));
+  });
+
+  return next;
+};
+
+export const loadMemberQueue = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    // Re-validate, as the stored list may have been edited by hand
+    return Array.isArray(stored) ? enqueueMembers([], stored) : [];
+  } catch (error) {
+    console.error("Error loading the member queue:", error);
+    return [];
+  }
+};
+
+export const saveMemberQueue = (queue: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error("Error saving the member queue:", error);
+  }
+};
+
+// Remove a single address from the queue
+export const dequeueMember = (queue: string[], address: string): string[] =>
+  queue.filter((entry) => entry.toLowerCase() !== address.toLowerCase());
+
+// Split the queue into chunks of at most `size` members
+export const chunkMembers = (members: string[], size: number): BatchChunk[] => {
+  const chunkSize = Math.max(1, Math.floor(size) || DEFAULT_BATCH_SIZE);
+  const chunks: BatchChunk[] = [];
+
+  for (let i = 0; i < members.length; i += chunkSize) {
+    chunks.push({
+      index: chunks.length,
+      members: members.slice(i, i + chunkSize),
+      status: "pending",
+    });
+  }
+
+  return chunks;
+};
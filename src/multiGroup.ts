@@ -0,0 +1,115 @@
+import { OwnershipResult } from "./ownership";
+
+// Progress of one group while members are added to several groups at once
+export type GroupTargetStatus =
+  "pending" | "processing" | "success" | "proposed" | "skipped" | "failed";
+
+export interface GroupTarget {
+  groupAddress: string;
+  groupName: string;
+  // How the add is sent: a direct transaction, or bundled into a Safe MultiSend
+  route?: "direct" | "safe";
+  safeAddress?: string;
+  // Members still to be added after dropping existing ones
+  members: string[];
+  status: GroupTargetStatus;
+  txHash?: string;
+  safeTxHash?: string;
+  error?: string;
+  networkError?: boolean;
+}
+
+// Groups that share an owner Safe, sent as one MultiSend transaction
+export interface SafeBundle {
+  safeAddress: string;
+  threshold: number;
+  targets: GroupTarget[];
+}
+
+export interface GroupTargetPlan {
+  direct: GroupTarget[];
+  safes: SafeBundle[];
+  // Groups the connected account cannot send to (already marked failed)
+  unavailable: GroupTarget[];
+}
+
+// Split the target groups by how the connected account controls them
+export const planGroupTargets = (
+  groups: { address: string; name: string }[],
+  ownerships: OwnershipResult[],
+  members: string[],
+): GroupTargetPlan => {
+  const plan: GroupTargetPlan = { direct: [], safes: [], unavailable: [] };
+
+  groups.forEach((group, index) => {
+    const ownership = ownerships[index];
+    const target: GroupTarget = {
+      groupAddress: group.address,
+      groupName: group.name,
+      members,
+      status: "pending",
+    };
+
+    if (ownership.status === "unknown") {
+      plan.unavailable.push({
+        ...target,
+        status: "failed",
+        error: ownership.reason,
+      });
+      return;
+    }
+    if (ownership.status === "not-owner") {
+      plan.unavailable.push({
+        ...target,
+        status: "failed",
+        error: `Your wallet does not control this group (owner: ${ownership.groupOwner})`,
+      });
+      return;
+    }
+
+    const route = ownership.route;
+    if (route.kind === "direct") {
+      plan.direct.push({ ...target, route: "direct" });
+    } else if (route.kind === "safe") {
+      const bundleTarget: GroupTarget = {
+        ...target,
+        route: "safe",
+        safeAddress: route.safeAddress,
+      };
+      const bundle = plan.safes.find(
+        (entry) =>
+          entry.safeAddress.toLowerCase() === route.safeAddress.toLowerCase(),
+      );
+      if (bundle) {
+        bundle.targets.push(bundleTarget);
+      } else {
+        plan.safes.push({
+          safeAddress: route.safeAddress,
+          threshold: route.threshold,
+          targets: [bundleTarget],
+        });
+      }
+    } else {
+      plan.unavailable.push({
+        ...target,
+        status: "failed",
+        error: `Only controllable through nested Safes (${route.path.join(
+          " ← ",
+        )}); sign from the outer Safe in the Safe app`,
+      });
+    }
+  });
+
+  return plan;
+};
+
+// One-line outcome of a multi-group add, naming the groups that failed
+export const summarizeTargets = (targets: GroupTarget[]): string | null => {
+  const failed = targets.filter((target) => target.status === "failed");
+  if (failed.length === 0) return null;
+
+  const sent = targets.length - failed.length;
+  return `${sent} of ${targets.length} groups updated. Failed: ${failed
+    .map((target) => `${target.groupName} (${target.error})`)
+    .join("; ")}`;
+};
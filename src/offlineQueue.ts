@@ -0,0 +1,64 @@
+import { CirclesRpcError } from "./circlesRpc";
+
+// Scans captured while offline, persisted until they are replayed
+const STORAGE_KEY = "capturedScans";
+
+export type CapturedScanStatus = "queued" | "done" | "failed";
+
+export interface CapturedScan {
+  id: string;
+  address: string;
+  tab: "invite" | "group";
+  // Invite mode at capture time; scans without one open the form
+  inviteMode?: "form" | "onchain";
+  groupAddress?: string;
+  groupName?: string;
+  context?: string;
+  capturedAt: number;
+  status: CapturedScanStatus;
+  txHash?: string;
+  safeTxHash?: string;
+  message?: string;
+}
+
+export const loadCapturedScans = (): CapturedScan[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch (error) {
+    console.error("Error loading captured scans:", error);
+    return [];
+  }
+};
+
+export const saveCapturedScans = (scans: CapturedScan[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scans));
+  } catch (error) {
+    console.error("Error saving captured scans:", error);
+  }
+};
+
+export const createCapturedScan = (
+  scan: Omit<CapturedScan, "id" | "capturedAt" | "status">,
+): CapturedScan => ({
+  ...scan,
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  capturedAt: Date.now(),
+  status: "queued",
+});
+
+// Whether an error means the RPC or wallet endpoint could not be reached
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  if (typeof error !== "object" || error === null) return false;
+  if (error instanceof CirclesRpcError) return error.kind === "network";
+
+  const errorObj = error as { code?: string; message?: string };
+  if (errorObj.code === "NETWORK_ERROR" || errorObj.code === "TIMEOUT") {
+    return true;
+  }
+  return (
+    error instanceof TypeError &&
+    /failed to fetch|network|load failed/i.test(errorObj.message || "")
+  );
+};
@@ -0,0 +1,137 @@
+// Persistent onboarding log stored in IndexedDB
+const DB_NAME = "circles-onboarding";
+const DB_VERSION = 1;
+const STORE_NAME = "sessionLog";
+
+export type LogAction = "invite" | "group-add" | "group-remove";
+// "queued" entries wait for an operator to approve them (kiosk scans)
+export type LogOutcome =
+  "success" | "proposed" | "failed" | "skipped" | "queued";
+
+export interface LogEntry {
+  id?: number;
+  timestamp: number;
+  action: LogAction;
+  outcome: LogOutcome;
+  address: string;
+  operator?: string;
+  groupAddress?: string;
+  groupName?: string;
+  context?: string;
+  txHash?: string;
+  safeTxHash?: string;
+  message?: string;
+}
+
+// Columns in the order they appear in the CSV export
+const CSV_COLUMNS: (keyof LogEntry)[] = [
+  "timestamp",
+  "action",
+  "outcome",
+  "address",
+  "operator",
+  "groupName",
+  "groupAddress",
+  "context",
+  "txHash",
+  "safeTxHash",
+  "message",
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+          store.createIndex("timestamp", "timestamp");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a request against the log store and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Append an entry and return it with its assigned id
+export const appendLogEntry = async (entry: LogEntry): Promise<LogEntry> => {
+  const id = await withStore("readwrite", (store) => store.add(entry));
+  return { ...entry, id: Number(id) };
+};
+
+// Load all entries, newest first
+export const loadLogEntries = async (): Promise<LogEntry[]> => {
+  const entries = await withStore<LogEntry[]>("readonly", (store) =>
+    store.getAll(),
+  );
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const clearLogEntries = async (): Promise<void> => {
+  await withStore("readwrite", (store) => store.clear());
+};
+
+export const escapeCsv = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (entries: LogEntry[]): string => {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      column === "timestamp"
+        ? new Date(entry.timestamp).toISOString()
+        : escapeCsv(entry[column]),
+    ).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+};
+
+export const toJson = (entries: LogEntry[]): string =>
+  JSON.stringify(
+    entries.map((entry) => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp).toISOString(),
+    })),
+    null,
+    2,
+  );
+
+// Trigger a browser download for the given text content
+export const downloadFile = (
+  filename: string,
+  content: string,
+  mimeType: string,
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
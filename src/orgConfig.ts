@@ -0,0 +1,145 @@
+import { ethers } from "ethers";
+
+// Organization whose trusted groups are listed, plus group list tweaks
+export interface OrgConfig {
+  orgAddress: string;
+  excludedGroups: string[];
+  fallbackGroupAddress: string;
+  fallbackGroupName: string;
+}
+
+// Where the active value of the organization address came from
+export type OrgConfigSource = "default" | "env" | "settings" | "url";
+
+const STORAGE_KEY = "orgSettings";
+
+export const DEFAULT_ORG_CONFIG: OrgConfig = {
+  orgAddress: "0x0aFd8899bca011Bb95611409f09c8EFbf6b169cF".toLowerCase(),
+  // Backers group
+  excludedGroups: ["0x1aca75e38263c79d9d4f10df0635cc6fcfe6f026"],
+  fallbackGroupAddress: "0xeb614ef61367687704cd4628a68a02f3b10ce68c",
+  fallbackGroupName: "Default Circles Group",
+};
+
+// Lowercase a valid address, or return undefined (with a warning) otherwise
+const parseAddress = (value: string | null | undefined, label: string) => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (!ethers.isAddress(trimmed)) {
+    console.warn(`Ignoring invalid ${label}: ${value}`);
+    return undefined;
+  }
+  return trimmed.toLowerCase();
+};
+
+const parseAddressList = (value: string | null | undefined, label: string) => {
+  if (value === null || value === undefined) return undefined;
+  return value
+    .split(",")
+    .filter((entry) => entry.trim() !== "")
+    .map((entry) => parseAddress(entry, label))
+    .filter((entry): entry is string => !!entry);
+};
+
+// Drop undefined values so they do not override earlier layers
+const defined = (config: Partial<OrgConfig>): Partial<OrgConfig> =>
+  Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined),
+  );
+
+const fromEnv = (): Partial<OrgConfig> =>
+  defined({
+    orgAddress: parseAddress(import.meta.env.VITE_ORG_ADDRESS, "org address"),
+    excludedGroups: parseAddressList(
+      import.meta.env.VITE_EXCLUDED_GROUPS,
+      "excluded group",
+    ),
+    fallbackGroupAddress: parseAddress(
+      import.meta.env.VITE_FALLBACK_GROUP_ADDRESS,
+      "fallback group",
+    ),
+    fallbackGroupName: import.meta.env.VITE_FALLBACK_GROUP_NAME || undefined,
+  });
+
+const fromSettings = (): Partial<OrgConfig> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return defined({
+      orgAddress: parseAddress(stored.orgAddress, "org address"),
+      excludedGroups: Array.isArray(stored.excludedGroups)
+        ? parseAddressList(stored.excludedGroups.join(","), "excluded group")
+        : undefined,
+      fallbackGroupAddress: parseAddress(
+        stored.fallbackGroupAddress,
+        "fallback group",
+      ),
+      fallbackGroupName: stored.fallbackGroupName || undefined,
+    });
+  } catch (error) {
+    console.error("Error loading organization settings:", error);
+    return {};
+  }
+};
+
+const fromUrl = (): Partial<OrgConfig> => {
+  const params = new URLSearchParams(window.location.search);
+  return defined({
+    orgAddress: parseAddress(params.get("org"), "org address"),
+    excludedGroups: parseAddressList(params.get("exclude"), "excluded group"),
+    fallbackGroupAddress: parseAddress(
+      params.get("fallbackGroup"),
+      "fallback group",
+    ),
+    fallbackGroupName: params.get("fallbackGroupName") || undefined,
+  });
+};
+
+// Resolve the configuration: defaults < env < saved settings < URL parameters
+export const loadOrgConfig = (): {
+  config: OrgConfig;
+  source: OrgConfigSource;
+} => {
+  const layers: [OrgConfigSource, Partial<OrgConfig>][] = [
+    ["env", fromEnv()],
+    ["settings", fromSettings()],
+    ["url", fromUrl()],
+  ];
+
+  let config = DEFAULT_ORG_CONFIG;
+  let source: OrgConfigSource = "default";
+  layers.forEach(([layerSource, layer]) => {
+    config = { ...config, ...layer };
+    if (layer.orgAddress) source = layerSource;
+  });
+
+  return { config, source };
+};
+
+// Check settings entered in the UI before they are saved (null when valid)
+export const validateOrgConfig = (config: OrgConfig): string | null => {
+  if (!ethers.isAddress(config.orgAddress)) {
+    return `Invalid organization address: ${config.orgAddress || "(empty)"}`;
+  }
+  const invalidExcluded = config.excludedGroups.find(
+    (address) => !ethers.isAddress(address),
+  );
+  if (invalidExcluded) {
+    return `Invalid excluded group address: ${invalidExcluded}`;
+  }
+  if (
+    config.fallbackGroupAddress &&
+    !ethers.isAddress(config.fallbackGroupAddress)
+  ) {
+    return `Invalid fallback group address: ${config.fallbackGroupAddress}`;
+  }
+  return null;
+};
+
+// Persist settings made in the UI (URL parameters still take precedence)
+export const saveOrgSettings = (settings: Partial<OrgConfig>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const clearOrgSettings = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
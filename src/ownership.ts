@@ -0,0 +1,135 @@
+import { ethers } from "ethers";
+
+// Minimal ABIs for resolving who controls a group
+const OWNABLE_ABI = ["function owner() external view returns (address)"];
+const SAFE_ABI = [
+  "function getOwners() public view returns (address[])",
+  "function getThreshold() public view returns (uint256)",
+];
+
+// Safes owned by Safes are followed this many levels below the group owner
+const MAX_SAFE_DEPTH = 3;
+
+// How the connected account controls the group
+export type OwnershipRoute =
+  | { kind: "direct" }
+  | { kind: "safe"; safeAddress: string; threshold: number }
+  // The group owner Safe is owned by another Safe (path runs from the group
+  // owner down to the Safe the account owns)
+  | { kind: "nested-safe"; safeAddress: string; path: string[] };
+
+export type OwnershipResult =
+  | { status: "owner"; groupOwner: string; route: OwnershipRoute }
+  | { status: "not-owner"; groupOwner: string }
+  | { status: "unknown"; reason: string };
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+const shortError = (error: unknown) =>
+  (error as { shortMessage?: string }).shortMessage ||
+  (error as Error).message ||
+  String(error);
+
+// Owners and threshold of a Safe, or null if the address is not a Safe
+const readSafe = async (provider: ethers.Provider, address: string) => {
+  const code = await provider.getCode(address);
+  if (code === "0x") return null;
+
+  const safe = new ethers.Contract(address, SAFE_ABI, provider);
+  try {
+    const [owners, threshold] = await Promise.all([
+      safe.getOwners() as Promise<string[]>,
+      safe.getThreshold() as Promise<bigint>,
+    ]);
+    return { owners, threshold: Number(threshold) };
+  } catch (error) {
+    // A contract without the Safe interface; anything else is a real failure
+    if (ethers.isError(error, "CALL_EXCEPTION")) return null;
+    throw error;
+  }
+};
+
+// Find the chain of Safes below `address` that ends in a Safe the account owns
+const findSafePath = async (
+  provider: ethers.Provider,
+  address: string,
+  account: string,
+  depth: number,
+): Promise<string[] | null> => {
+  const safe = await readSafe(provider, address);
+  if (!safe) return null;
+  if (safe.owners.some((owner) => sameAddress(owner, account))) {
+    return [address];
+  }
+  if (depth >= MAX_SAFE_DEPTH) return null;
+
+  for (const owner of safe.owners) {
+    const path = await findSafePath(provider, owner, account, depth + 1);
+    if (path) return [address, ...path];
+  }
+  return null;
+};
+
+// Resolve whether the account controls the group, directly or through Safes
+export const resolveOwnership = async (
+  provider: ethers.Provider,
+  groupAddress: string,
+  account: string,
+): Promise<OwnershipResult> => {
+  let groupOwner: string;
+  try {
+    const group = new ethers.Contract(groupAddress, OWNABLE_ABI, provider);
+    groupOwner = await group.owner();
+  } catch (error) {
+    return {
+      status: "unknown",
+      reason: `Could not read the group owner: ${shortError(error)}`,
+    };
+  }
+
+  if (sameAddress(groupOwner, account)) {
+    return { status: "owner", groupOwner, route: { kind: "direct" } };
+  }
+
+  try {
+    const safe = await readSafe(provider, groupOwner);
+    if (!safe) return { status: "not-owner", groupOwner };
+
+    if (safe.owners.some((owner) => sameAddress(owner, account))) {
+      return {
+        status: "owner",
+        groupOwner,
+        route: {
+          kind: "safe",
+          safeAddress: groupOwner,
+          threshold: safe.threshold,
+        },
+      };
+    }
+
+    for (const owner of safe.owners) {
+      const path = await findSafePath(provider, owner, account, 2);
+      if (path) {
+        return {
+          status: "owner",
+          groupOwner,
+          route: {
+            kind: "nested-safe",
+            safeAddress: groupOwner,
+            path: [groupOwner, ...path],
+          },
+        };
+      }
+    }
+
+    return { status: "not-owner", groupOwner };
+  } catch (error) {
+    return {
+      status: "unknown",
+      reason: `Could not read the owners of Safe ${groupOwner}: ${shortError(
+        error,
+      )}`,
+    };
+  }
+};
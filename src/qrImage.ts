@@ -0,0 +1,26 @@
+import {
+  BrowserQRCodeReader,
+  ChecksumException,
+  FormatException,
+  NotFoundException,
+} from "@zxing/library";
+
+// Decode a QR code from an uploaded or pasted image (null when none is found)
+export const decodeQrImage = async (image: Blob): Promise<string | null> => {
+  const url = URL.createObjectURL(image);
+  try {
+    const result = await new BrowserQRCodeReader().decodeFromImageUrl(url);
+    return result.getText();
+  } catch (error) {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ChecksumException ||
+      error instanceof FormatException
+    ) {
+      return null;
+    }
+    throw error;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { ParsedPayload, PayloadFormat, parseQrPayload } from "./qrPayload";
+
+// EIP-55 test vectors
+const ADDRESS = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const OTHER = "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359";
+const BAD_CHECKSUM = "0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+const TOKEN = "0xdbF3Ea6F5beE45c02255B2c26a16F300502F68da";
+
+type Fixture = [description: string, payload: string, expected: Expected];
+type Expected =
+  | { address: string; format: PayloadFormat }
+  | { error: RegExp; format?: PayloadFormat };
+
+const accepted = (address: string, format: PayloadFormat): Expected => ({
+  address,
+  format,
+});
+const rejected = (error: RegExp, format?: PayloadFormat): Expected => ({
+  error,
+  format,
+});
+
+const FIXTURES: Record<string, Fixture[]> = {
+  "plain addresses": [
+    ["checksummed", ADDRESS, accepted(ADDRESS, "address")],
+    ["lowercase", ADDRESS.toLowerCase(), accepted(ADDRESS, "address")],
+    [
+      "uppercase hex",
+      `0x${ADDRESS.slice(2).toUpperCase()}`,
+      accepted(ADDRESS, "address"),
+    ],
+    ["surrounding whitespace", `  ${ADDRESS}\n`, accepted(ADDRESS, "address")],
+    [
+      "mis-checksummed",
+      BAD_CHECKSUM,
+      rejected(/Invalid EIP-55 checksum/, "address"),
+    ],
+    ["too short", ADDRESS.slice(0, 41), rejected(/No supported/)],
+  ],
+  "EIP-681 links": [
+    ["on Gnosis Chain", `ethereum:${ADDRESS}@100`, accepted(ADDRESS, "eip681")],
+    [
+      "on Gnosis Chain in hex",
+      `ethereum:${ADDRESS}@0x64?value=1e18`,
+      accepted(ADDRESS, "eip681"),
+    ],
+    [
+      "with the pay- prefix",
+      `ethereum:pay-${ADDRESS}@100`,
+      accepted(ADDRESS, "eip681"),
+    ],
+    [
+      "on another chain",
+      `ethereum:${ADDRESS}@1`,
+      rejected(/chain 1, not Gnosis/, "eip681"),
+    ],
+    [
+      "without a chain id (mainnet)",
+      `ethereum:${ADDRESS}`,
+      rejected(/no chain id/, "eip681"),
+    ],
+    [
+      "with a mis-checksummed target",
+      `ethereum:${BAD_CHECKSUM}@100`,
+      rejected(/Invalid EIP-55 checksum/, "eip681"),
+    ],
+    [
+      "malformed",
+      "ethereum:not-an-address",
+      rejected(/Malformed EIP-681/, "eip681"),
+    ],
+  ],
+  "EIP-681 transfer links": [
+    [
+      "token and recipient",
+      `ethereum:${TOKEN}@100/transfer?address=${ADDRESS}&uint256=1e18`,
+      accepted(ADDRESS, "eip681"),
+    ],
+    [
+      "recipient among several addresses",
+      `ethereum:${TOKEN}@100/transfer?from=${OTHER}&address=${ADDRESS}&uint256=1`,
+      accepted(ADDRESS, "eip681"),
+    ],
+    [
+      "on another chain",
+      `ethereum:${TOKEN}@137/transfer?address=${ADDRESS}`,
+      rejected(/chain 137/, "eip681"),
+    ],
+    [
+      "without a recipient",
+      `ethereum:${TOKEN}@100/transfer?uint256=1`,
+      rejected(/no recipient/, "eip681"),
+    ],
+    [
+      "with another function",
+      `ethereum:${TOKEN}@100/approve?address=${ADDRESS}`,
+      rejected(/Unsupported EIP-681 function: approve/, "eip681"),
+    ],
+  ],
+  "Metri/Circles links": [
+    [
+      "Metri profile path",
+      `https://app.metri.xyz/${ADDRESS}`,
+      accepted(ADDRESS, "circles-link"),
+    ],
+    [
+      "Metri profile key",
+      `https://app.metri.xyz/profile/${ADDRESS.toLowerCase()}`,
+      accepted(ADDRESS, "circles-link"),
+    ],
+    [
+      "Circles address parameter",
+      `https://app.aboutcircles.com/?address=${ADDRESS}`,
+      accepted(ADDRESS, "circles-link"),
+    ],
+    [
+      "transfer link with several addresses",
+      `https://app.metri.xyz/${OTHER}/transfer/${ADDRESS}`,
+      accepted(ADDRESS, "circles-link"),
+    ],
+    [
+      "same address twice",
+      `https://app.metri.xyz/${ADDRESS}/${ADDRESS.toLowerCase()}`,
+      accepted(ADDRESS, "circles-link"),
+    ],
+    [
+      "several unmarked addresses",
+      `https://app.metri.xyz/${OTHER}/${ADDRESS}`,
+      rejected(/several addresses/, "circles-link"),
+    ],
+    [
+      "no address",
+      "https://app.metri.xyz/settings",
+      rejected(/does not contain an address/, "circles-link"),
+    ],
+    [
+      "mis-checksummed address",
+      `https://app.metri.xyz/profile/${BAD_CHECKSUM}`,
+      rejected(/Invalid EIP-55 checksum/, "circles-link"),
+    ],
+    ["other host", `https://example.com/${ADDRESS}`, rejected(/No supported/)],
+  ],
+  "EIP-3770 prefixes": [
+    ["gno:", `gno:${ADDRESS}`, accepted(ADDRESS, "chain-prefixed")],
+    [
+      "GNO: in upper case",
+      `GNO:${ADDRESS}`,
+      accepted(ADDRESS, "chain-prefixed"),
+    ],
+    [
+      "eth:",
+      `eth:${ADDRESS}`,
+      rejected(/chain "eth", not Gnosis/, "chain-prefixed"),
+    ],
+    [
+      "matic:",
+      `matic:${ADDRESS}`,
+      rejected(/chain "matic", not Gnosis/, "chain-prefixed"),
+    ],
+    [
+      "gno: with a mis-checksummed address",
+      `gno:${BAD_CHECKSUM}`,
+      rejected(/Invalid EIP-55 checksum/, "chain-prefixed"),
+    ],
+  ],
+};
+
+const check = (result: ParsedPayload, expected: Expected) => {
+  if ("address" in expected) {
+    expect(result).toMatchObject({
+      ok: true,
+      address: expected.address,
+      format: expected.format,
+    });
+  } else {
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatch(expected.error);
+    expect(result.format).toBe(expected.format);
+  }
+};
+
+describe("parseQrPayload", () => {
+  Object.entries(FIXTURES).forEach(([group, fixtures]) => {
+    describe(group, () => {
+      it.each(fixtures)("%s", (_description, payload, expected) => {
+        check(parseQrPayload(payload), expected);
+      });
+    });
+  });
+
+  it("reports Gnosis Chain for chain-aware formats", () => {
+    expect(parseQrPayload(`ethereum:${ADDRESS}@100`)).toMatchObject({
+      chainId: 100,
+    });
+    expect(parseQrPayload(`gno:${ADDRESS}`)).toMatchObject({ chainId: 100 });
+  });
+});
@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+
+const GNOSIS_CHAIN_ID = 100;
+
+// EIP-3770 short name of Gnosis Chain (as used by Safe, e.g. gno:0x...)
+const GNOSIS_SHORT_NAME = "gno";
+
+// Hosts whose links carry a Circles profile address
+const CIRCLES_LINK_HOSTS = /(^|\.)(metri\.xyz|aboutcircles\.com)$/i;
+
+// Path segments that precede the address of interest in Circles links
+const CIRCLES_LINK_KEYS = ["profile", "p", "transfer", "send", "pay"];
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export type PayloadFormat =
+  "address" | "eip681" | "circles-link" | "chain-prefixed";
+
+export const FORMAT_LABELS: Record<PayloadFormat, string> = {
+  address: "Plain address",
+  eip681: "EIP-681 payment link",
+  "circles-link": "Metri/Circles link",
+  "chain-prefixed": "Chain-prefixed address",
+};
+
+export type ParsedPayload =
+  | { ok: true; address: string; format: PayloadFormat; chainId?: number }
+  | { ok: false; error: string; format?: PayloadFormat };
+
+// Validate an address, including its EIP-55 checksum when it is mixed case
+const validateAddress = (
+  value: string,
+  format: PayloadFormat,
+  chainId?: number,
+): ParsedPayload => {
+  if (!ADDRESS_PATTERN.test(value)) {
+    return { ok: false, error: `Not a valid address: ${value}`, format };
+  }
+
+  const hex = value.slice(2);
+  const isMixedCase = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+  const checksummed = ethers.getAddress(value.toLowerCase());
+  if (isMixedCase && checksummed !== value) {
+    return {
+      ok: false,
+      error: `Invalid EIP-55 checksum for ${value}`,
+      format,
+    };
+  }
+
+  return { ok: true, address: checksummed, format, chainId };
+};
+
+// gno:0x... (and other EIP-3770 prefixes, which are rejected)
+const parseChainPrefixed = (text: string): ParsedPayload | null => {
+  const match = text.match(/^([a-z][a-z0-9-]*):(0x[0-9a-fA-F]{40})$/i);
+  if (!match || match[1].toLowerCase() === "ethereum") return null;
+
+  if (match[1].toLowerCase() !== GNOSIS_SHORT_NAME) {
+    return {
+      ok: false,
+      error: `Address is for chain "${match[1]}", not Gnosis Chain`,
+      format: "chain-prefixed",
+    };
+  }
+  return validateAddress(match[2], "chain-prefixed", GNOSIS_CHAIN_ID);
+};
+
+// ethereum:[pay-]<target>[@chainId][/function][?params]
+const parseEip681 = (text: string): ParsedPayload | null => {
+  const match = text.match(
+    /^ethereum:(?:pay-)?(0x[0-9a-fA-F]{40})(?:@(\d+|0x[0-9a-fA-F]+))?(?:\/([^?]+))?(?:\?(.*))?$/i,
+  );
+  if (!match) {
+    return /^ethereum:/i.test(text)
+      ? { ok: false, error: "Malformed EIP-681 link", format: "eip681" }
+      : null;
+  }
+
+  const [, target, chain, functionName, query] = match;
+  // Without a chain id the link is for Ethereum mainnet (EIP-681 default)
+  if (!chain) {
+    return {
+      ok: false,
+      error:
+        "Payment link has no chain id, so it is for Ethereum mainnet, not Gnosis Chain",
+      format: "eip681",
+    };
+  }
+  const chainId = Number(chain);
+  if (chainId !== GNOSIS_CHAIN_ID) {
+    return {
+      ok: false,
+      error: `Payment link is for chain ${chainId}, not Gnosis Chain`,
+      format: "eip681",
+    };
+  }
+
+  // Token transfers put the token in the target and the recipient in `address`
+  if (functionName) {
+    if (functionName !== "transfer") {
+      return {
+        ok: false,
+        error: `Unsupported EIP-681 function: ${functionName}`,
+        format: "eip681",
+      };
+    }
+    const recipient = new URLSearchParams(query || "").get("address");
+    if (!recipient) {
+      return {
+        ok: false,
+        error: "Transfer link has no recipient address",
+        format: "eip681",
+      };
+    }
+    return validateAddress(recipient, "eip681", chainId);
+  }
+
+  return validateAddress(target, "eip681", chainId);
+};
+
+// https://app.metri.xyz/<address>, .../profile/<address>, ?address=<address>
+const parseCirclesLink = (text: string): ParsedPayload | null => {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  if (!CIRCLES_LINK_HOSTS.test(url.hostname)) return null;
+
+  for (const key of ["address", "profile", "to"]) {
+    const value = url.searchParams.get(key);
+    if (value) return validateAddress(value, "circles-link");
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  const candidates = segments
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) => ADDRESS_PATTERN.test(segment));
+  const distinct = new Set(
+    candidates.map(({ segment }) => segment.toLowerCase()),
+  );
+
+  if (distinct.size === 0) {
+    return {
+      ok: false,
+      error: "Link does not contain an address",
+      format: "circles-link",
+    };
+  }
+  if (distinct.size === 1) {
+    return validateAddress(candidates[0].segment, "circles-link");
+  }
+
+  // Several addresses: only accept the one that follows a known key segment
+  const keyed = candidates.find(
+    ({ index }) =>
+      index > 0 &&
+      CIRCLES_LINK_KEYS.includes(segments[index - 1].toLowerCase()),
+  );
+  return keyed
+    ? validateAddress(keyed.segment, "circles-link")
+    : {
+        ok: false,
+        error:
+          "Link contains several addresses and none is marked as the profile",
+        format: "circles-link",
+      };
+};
+
+const parsePlainAddress = (text: string): ParsedPayload | null =>
+  ADDRESS_PATTERN.test(text) ? validateAddress(text, "address") : null;
+
+const HANDLERS = [
+  parsePlainAddress,
+  parseChainPrefixed,
+  parseEip681,
+  parseCirclesLink,
+];
+
+// Extract the wallet address from a scanned or pasted QR payload
+export const parseQrPayload = (payload: string): ParsedPayload => {
+  const text = payload.trim();
+
+  for (const handler of HANDLERS) {
+    const result = handler(text);
+    if (result) return result;
+  }
+
+  return { ok: false, error: "No supported wallet address found in QR code" };
+};
@@ -6,6 +6,7 @@ declare module "react-qr-scanner" {
     style?: React.CSSProperties;
     onError: (error: Error) => void;
     onScan: (data: { text: string } | null) => void;
+    onLoad?: () => void;
     constraints?: MediaStreamConstraints;
     resolution?: number;
     facingMode?: string;
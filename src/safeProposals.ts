@@ -0,0 +1,83 @@
+import { SafeClientResult } from "@safe-global/sdk-starter-kit";
+import { LogAction } from "./onboardingLog";
+
+// A Safe transaction proposed during this session that still needs tracking
+export interface SafeProposal {
+  safeTxHash: string;
+  safeAddress: string;
+  groupAddress: string;
+  groupName: string;
+  description: string;
+  action?: LogAction;
+  members?: string[];
+  // Members per group, for proposals that bundle several groups
+  groups?: { groupAddress: string; groupName: string; members: string[] }[];
+  createdAt: number;
+  confirmations: string[]; // owners who signed
+  threshold: number;
+  status: "pending" | "executing" | "executed" | "failed";
+  txHash?: string;
+  error?: string;
+}
+
+// The fields we read from a transaction service entry
+// (SafeMultisigTransactionResponse)
+export interface ServiceTransaction {
+  safeTxHash: string;
+  to: string;
+  nonce: number | string;
+  submissionDate: string;
+  confirmationsRequired: number;
+  confirmations?: { owner: string }[];
+  isExecuted: boolean;
+  isSuccessful: boolean | null;
+  transactionHash: string | null;
+}
+
+// Hashes returned by safeClient.send / safeClient.confirm
+export interface SafeSendHashes {
+  txHash?: string;
+  safeTxHash?: string;
+}
+
+// Read the hashes out of a SafeClientResult
+export const readSafeResult = (
+  result: SafeClientResult | undefined,
+): SafeSendHashes => ({
+  txHash: result?.transactions?.ethereumTxHash || undefined,
+  safeTxHash: result?.transactions?.safeTxHash || undefined,
+});
+
+// Merge the transaction service's view of a proposal into our entry
+export const applyServiceTransaction = (
+  proposal: SafeProposal,
+  serviceTx: ServiceTransaction,
+): SafeProposal => {
+  const confirmations = (serviceTx.confirmations || []).map(
+    (confirmation) => confirmation.owner,
+  );
+
+  return {
+    ...proposal,
+    confirmations,
+    threshold: Number(serviceTx.confirmationsRequired) || proposal.threshold,
+    status: serviceTx.isExecuted
+      ? serviceTx.isSuccessful === false
+        ? "failed"
+        : "executed"
+      : proposal.status === "executing"
+        ? "executing"
+        : "pending",
+    txHash: serviceTx.transactionHash || proposal.txHash,
+    error:
+      serviceTx.isExecuted && serviceTx.isSuccessful === false
+        ? "Safe transaction reverted"
+        : proposal.error,
+  };
+};
+
+// Whether the given owner has already signed the proposal
+export const hasSigned = (proposal: SafeProposal, owner: string) =>
+  proposal.confirmations.some(
+    (confirmation) => confirmation.toLowerCase() === owner.toLowerCase(),
+  );
@@ -0,0 +1,42 @@
+// Audible and haptic confirmation of scans, so staff need not watch the screen
+
+export type ScanFeedback = "new" | "duplicate";
+
+const TONES: Record<ScanFeedback, { frequency: number; duration: number }> = {
+  new: { frequency: 880, duration: 0.12 },
+  duplicate: { frequency: 220, duration: 0.2 },
+};
+
+const VIBRATIONS: Record<ScanFeedback, number | number[]> = {
+  new: 100,
+  duplicate: [50, 50, 50],
+};
+
+let audioContext: AudioContext | null = null;
+
+const playTone = (frequency: number, duration: number) => {
+  audioContext = audioContext || new AudioContext();
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+
+  oscillator.frequency.value = frequency;
+  gain.gain.value = 0.2;
+  oscillator.connect(gain);
+  gain.connect(audioContext.destination);
+
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + duration);
+};
+
+export const playScanFeedback = (kind: ScanFeedback) => {
+  try {
+    playTone(TONES[kind].frequency, TONES[kind].duration);
+  } catch (error) {
+    console.warn("Could not play scan sound:", error);
+  }
+
+  // Not supported on every device (e.g. iOS Safari)
+  if ("vibrate" in navigator) {
+    navigator.vibrate(VIBRATIONS[kind]);
+  }
+};
@@ -0,0 +1,319 @@
+import { ethers } from "ethers";
+import { hashPin } from "./kiosk";
+
+// Named event configurations, saved locally or handed out as a link or file
+
+export interface ProfileSettings {
+  tab: "invite" | "group" | "log";
+  groupAddress?: string;
+  ownerMode: "direct" | "safe";
+  safeAddress?: string;
+  autoInvite: boolean;
+  autoGroup: boolean;
+  queueScans: boolean;
+  continuousScan: boolean;
+  context: string;
+  inviteMode: "form" | "onchain";
+}
+
+export type ProfileSettingKey = keyof ProfileSettings;
+
+export interface SessionProfile {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+  // Settings volunteers cannot change while the profile is active
+  locked: ProfileSettingKey[];
+  // Hash of the organizer PIN that unlocks a locked profile
+  pinHash?: string;
+}
+
+// Where the active profile came from, and who signed it (for links)
+export interface ActiveProfile {
+  profile: SessionProfile;
+  source: "saved" | "url" | "file";
+  signer?: string;
+  trustedSigner?: boolean;
+  // Group and Safe of a link without a trusted signature, only applied once
+  // the operator confirms them
+  suggested?: Pick<ProfileSettings, "groupAddress" | "safeAddress">;
+}
+
+export const SETTING_LABELS: Record<ProfileSettingKey, string> = {
+  tab: "Tab",
+  groupAddress: "Group",
+  ownerMode: "Owner mode",
+  safeAddress: "Safe address",
+  autoInvite: "Auto-Invite",
+  autoGroup: "Auto-Add to Group",
+  queueScans: "Queue Scans",
+  continuousScan: "Continuous Scanning",
+  context: "Context",
+  inviteMode: "Invite mode",
+};
+
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+  tab: "invite",
+  ownerMode: "direct",
+  autoInvite: false,
+  autoGroup: false,
+  queueScans: false,
+  continuousScan: false,
+  context: "",
+  inviteMode: "form",
+};
+
+const PROFILES_KEY = "sessionProfiles";
+const ACTIVE_KEY = "activeSessionProfile";
+const PROFILE_PARAM = "profile";
+const SIGNATURE_PARAM = "profileSig";
+
+const oneOf = <T extends string>(value: unknown, options: T[], fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const optionalAddress = (value: unknown, label: string) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" || !ethers.isAddress(value)) {
+    throw new Error(`Invalid ${label}: ${String(value)}`);
+  }
+  return value.toLowerCase();
+};
+
+// Validate a profile read from storage, a file or a link
+export const parseProfile = (value: unknown): SessionProfile => {
+  if (!value || typeof value !== "object") {
+    throw new Error("A profile must be a JSON object");
+  }
+  const raw = value as Record<string, any>;
+  if (typeof raw.name !== "string" || !raw.name.trim()) {
+    throw new Error("The profile has no name");
+  }
+
+  const settings = (raw.settings || {}) as Record<string, unknown>;
+  const defaults = DEFAULT_PROFILE_SETTINGS;
+  const flag = (key: keyof ProfileSettings, fallback: boolean) =>
+    typeof settings[key] === "boolean" ? (settings[key] as boolean) : fallback;
+  // Locks only hold with a PIN to unlock them
+  const pinHash = ethers.isHexString(raw.pinHash, 32) ? raw.pinHash : undefined;
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : Date.now().toString(36),
+    name: raw.name.trim(),
+    settings: {
+      tab: oneOf(settings.tab, ["invite", "group", "log"], defaults.tab),
+      groupAddress: optionalAddress(settings.groupAddress, "group address"),
+      ownerMode: oneOf(
+        settings.ownerMode,
+        ["direct", "safe"],
+        defaults.ownerMode,
+      ),
+      safeAddress: optionalAddress(settings.safeAddress, "Safe address"),
+      autoInvite: flag("autoInvite", defaults.autoInvite),
+      autoGroup: flag("autoGroup", defaults.autoGroup),
+      queueScans: flag("queueScans", defaults.queueScans),
+      continuousScan: flag("continuousScan", defaults.continuousScan),
+      context:
+        typeof settings.context === "string"
+          ? settings.context
+          : defaults.context,
+      inviteMode: oneOf(
+        settings.inviteMode,
+        ["form", "onchain"],
+        defaults.inviteMode,
+      ),
+    },
+    locked:
+      pinHash && Array.isArray(raw.locked)
+        ? raw.locked.filter((key: unknown): key is ProfileSettingKey =>
+            Object.keys(SETTING_LABELS).includes(key as string),
+          )
+        : [],
+    pinHash,
+  };
+};
+
+// Whether the PIN unlocks the profile (profiles without locks need none)
+export const checkProfilePin = (profile: SessionProfile, pin: string) =>
+  profile.locked.length === 0 || hashPin(pin) === profile.pinHash;
+
+export const loadProfiles = (): SessionProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    // Skip entries that no longer validate instead of losing every profile
+    return stored.flatMap((entry) => {
+      try {
+        return [parseProfile(entry)];
+      } catch (error) {
+        console.warn("Ignoring invalid session profile:", error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.error("Error loading session profiles:", error);
+    return [];
+  }
+};
+
+export const saveProfiles = (profiles: SessionProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const saveActiveProfileId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_KEY);
+  }
+};
+
+// Replace a profile with the same name, or add it
+export const upsertProfile = (
+  profiles: SessionProfile[],
+  profile: SessionProfile,
+): SessionProfile[] => {
+  const existing = profiles.find(
+    (entry) =>
+      entry.id === profile.id ||
+      entry.name.toLowerCase() === profile.name.toLowerCase(),
+  );
+  return existing
+    ? profiles.map((entry) =>
+        entry === existing ? { ...profile, id: existing.id } : entry,
+      )
+    : [...profiles, profile];
+};
+
+// Add a profile without replacing a saved one: a saved copy with the same
+// settings is reused (e.g. when the same link is opened again), otherwise it
+// is added under a new id and a name not taken yet
+export const addProfileCopy = (
+  profiles: SessionProfile[],
+  profile: SessionProfile,
+): { profiles: SessionProfile[]; stored: SessionProfile } => {
+  const content = (entry: SessionProfile) =>
+    encodeProfile({ ...entry, name: "" });
+  const identical = profiles.find(
+    (entry) =>
+      content(entry) === content(profile) &&
+      (entry.name === profile.name ||
+        entry.name.startsWith(`${profile.name} (`)),
+  );
+  if (identical) return { profiles, stored: identical };
+
+  const taken = (name: string) =>
+    profiles.some((entry) => entry.name.toLowerCase() === name.toLowerCase());
+  let name = profile.name;
+  for (let copy = 2; taken(name); copy++) {
+    name = `${profile.name} (${copy})`;
+  }
+
+  const stored = {
+    ...profile,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+  };
+  return { profiles: [...profiles, stored], stored };
+};
+
+// The exact text that is signed and carried in links
+export const encodeProfile = (profile: SessionProfile) =>
+  JSON.stringify({
+    name: profile.name,
+    settings: profile.settings,
+    locked: profile.locked,
+    pinHash: profile.pinHash,
+  });
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  new TextDecoder().decode(
+    Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+      char.charCodeAt(0),
+    ),
+  );
+
+// Link that opens the app with the profile applied (signed when a signature is given)
+export const profileLink = (profile: SessionProfile, signature?: string) => {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(PROFILE_PARAM, toBase64Url(encodeProfile(profile)));
+  if (signature) url.searchParams.set(SIGNATURE_PARAM, signature);
+  return url.toString();
+};
+
+// Addresses whose signed profile links are trusted
+const trustedSigners = () =>
+  (import.meta.env.VITE_PROFILE_SIGNERS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+// Profile carried in the page URL; a signature that does not verify rejects it,
+// and links without a trusted signer lose their locks, group and Safe
+const fromUrl = (): ActiveProfile | { error: string } | null => {
+  const params = new URLSearchParams(window.location.search);
+  const encoded = params.get(PROFILE_PARAM);
+  if (!encoded) return null;
+
+  let message: string;
+  let profile: SessionProfile;
+  try {
+    message = fromBase64Url(encoded);
+    profile = parseProfile(JSON.parse(message));
+  } catch (error) {
+    return {
+      error: `Could not read the profile link: ${(error as Error).message}`,
+    };
+  }
+
+  const signature = params.get(SIGNATURE_PARAM);
+  let signer: string | undefined;
+  if (signature) {
+    try {
+      signer = ethers.verifyMessage(message, signature);
+    } catch (error) {
+      return {
+        error: `The profile link has an invalid signature: ${
+          (error as Error).message
+        }`,
+      };
+    }
+  }
+
+  if (signer && trustedSigners().includes(signer.toLowerCase())) {
+    return { profile, source: "url", signer, trustedSigner: true };
+  }
+
+  // Anyone can make such a link, so it must not lock settings or quietly
+  // switch the group or Safe transactions go to
+  const { groupAddress, safeAddress, ...settings } = profile.settings;
+  return {
+    profile: { ...profile, settings, locked: [], pinHash: undefined },
+    source: "url",
+    signer,
+    trustedSigner: false,
+    suggested:
+      groupAddress || safeAddress ? { groupAddress, safeAddress } : undefined,
+  };
+};
+
+// Profile to start with: a link takes precedence over the last saved profile
+export const loadStartupProfile = (): {
+  active: ActiveProfile | null;
+  error?: string;
+} => {
+  const linked = fromUrl();
+  if (linked && "profile" in linked) return { active: linked };
+
+  const activeId = localStorage.getItem(ACTIVE_KEY);
+  const saved = loadProfiles().find((profile) => profile.id === activeId);
+  return {
+    active: saved ? { profile: saved, source: "saved" } : null,
+    error: linked?.error,
+  };
+};
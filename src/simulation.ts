@@ -0,0 +1,94 @@
+import { ethers } from "ethers";
+import { isNetworkError } from "./offlineQueue";
+
+// Custom errors the group contracts and the Circles v2 Hub revert with
+const KNOWN_ERRORS = new ethers.Interface([
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+  "error CirclesErrorNoArgs(uint8 code)",
+  "error CirclesErrorOneAddressArg(address account, uint8 code)",
+  "error CirclesErrorAddressUintArgs(address account, uint256 value, uint8 code)",
+]);
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow",
+  0x12: "division by zero",
+  0x32: "array index out of bounds",
+};
+
+export type SimulationResult =
+  | { ok: true; gasLimit: bigint; cost: bigint }
+  | { ok: false; reason: string; networkError?: boolean };
+
+export interface SimulatedTransaction {
+  from: string;
+  to: string;
+  data: string;
+}
+
+// Turn a failed eth_call or estimateGas into a readable reason
+export const describeRevert = (error: unknown): string => {
+  const callError = error as {
+    reason?: string | null;
+    revert?: { name: string; args: unknown[] } | null;
+    data?: string | null;
+    shortMessage?: string;
+    message?: string;
+  };
+
+  // Error(string) and Panic(uint256), decoded by ethers
+  if (callError.revert?.name === "Panic") {
+    const code = Number(callError.revert.args[0]);
+    return `Panic: ${PANIC_REASONS[code] || `code 0x${code.toString(16)}`}`;
+  }
+  if (callError.reason) return callError.reason;
+
+  if (callError.data && callError.data !== "0x") {
+    try {
+      const parsed = KNOWN_ERRORS.parseError(callError.data);
+      if (parsed) {
+        return `${parsed.name}(${parsed.args
+          .map((arg) => String(arg))
+          .join(", ")})`;
+      }
+    } catch {
+      // Unknown selector, reported below
+    }
+    return `Reverted with custom error ${callError.data.slice(0, 10)}`;
+  }
+
+  return (
+    callError.shortMessage ||
+    callError.message ||
+    "Transaction reverted without a reason"
+  );
+};
+
+// Run the exact call with eth_call and estimateGas, and price it in xDAI
+export const simulateTransaction = async (
+  provider: ethers.Provider,
+  transaction: SimulatedTransaction,
+): Promise<SimulationResult> => {
+  try {
+    await provider.call(transaction);
+    const [gasLimit, feeData] = await Promise.all([
+      provider.estimateGas(transaction),
+      provider.getFeeData(),
+    ]);
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    return { ok: true, gasLimit, cost: gasLimit * gasPrice };
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return {
+        ok: false,
+        reason: `Could not simulate the transaction: ${(error as Error).message}`,
+        networkError: true,
+      };
+    }
+    return { ok: false, reason: describeRevert(error) };
+  }
+};
+
+export const formatCost = (cost: bigint) =>
+  `~${Number(ethers.formatEther(cost)).toFixed(6)} xDAI`;
@@ -0,0 +1,242 @@
+import { ethers } from "ethers";
+import type { EthereumProvider } from "@walletconnect/ethereum-provider";
+
+// Minimal EIP-1193 provider surface used by the app and the Safe SDK
+export interface Eip1193Provider {
+  request: (args: { method: string; params?: unknown[] }) => Promise<any>;
+  on?: (event: any, listener: (...args: any[]) => void) => unknown;
+  removeListener?: (event: any, listener: (...args: any[]) => void) => unknown;
+}
+
+export type ConnectorId = "injected" | "walletconnect" | "burner";
+
+// Everything the app needs from a connected wallet
+export interface WalletSession {
+  connectorId: ConnectorId;
+  account: string;
+  chainId: number;
+  provider: ethers.Provider;
+  // Only set while the wallet is on the expected chain
+  signer: ethers.Signer | null;
+  // Arguments for createSafeClient: an EIP-1193 provider or RPC URL, and the
+  // signer address or private key
+  safeProvider: Eip1193Provider | string;
+  safeSigner: string;
+  // Underlying provider, for events and network switching
+  eip1193?: Eip1193Provider;
+}
+
+export interface WalletConnector {
+  id: ConnectorId;
+  name: string;
+  description: string;
+  available: () => boolean;
+  // Prompt the user to connect
+  connect: () => Promise<WalletSession>;
+  // Restore an existing connection without prompting (null if there is none)
+  reconnect: () => Promise<WalletSession | null>;
+  disconnect: () => Promise<void>;
+}
+
+interface ConnectorOptions {
+  chainId: number;
+  rpcUrl: string;
+}
+
+const LAST_CONNECTOR_KEY = "walletConnector";
+const BURNER_KEY = "burnerPrivateKey";
+
+export const loadLastConnector = () =>
+  localStorage.getItem(LAST_CONNECTOR_KEY) as ConnectorId | null;
+
+export const saveLastConnector = (id: ConnectorId | null) => {
+  if (id) {
+    localStorage.setItem(LAST_CONNECTOR_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_CONNECTOR_KEY);
+  }
+};
+
+// Build a session from any EIP-1193 provider that already exposes an account
+const sessionFromEip1193 = async (
+  connectorId: ConnectorId,
+  eip1193: Eip1193Provider,
+  { chainId, rpcUrl }: ConnectorOptions,
+): Promise<WalletSession | null> => {
+  const accounts: string[] = await eip1193.request({ method: "eth_accounts" });
+  if (accounts.length === 0) return null;
+
+  const networkId = parseInt(
+    await eip1193.request({ method: "eth_chainId" }),
+    16,
+  );
+  const onChain = networkId === chainId;
+
+  // Fall back to the public RPC for reads while the wallet is on another chain
+  const provider = onChain
+    ? new ethers.BrowserProvider(eip1193)
+    : new ethers.JsonRpcProvider(rpcUrl);
+  const signer = onChain
+    ? await (provider as ethers.BrowserProvider).getSigner()
+    : null;
+
+  return {
+    connectorId,
+    account: ethers.getAddress(accounts[0]),
+    chainId: networkId,
+    provider,
+    signer,
+    safeProvider: eip1193,
+    safeSigner: ethers.getAddress(accounts[0]),
+    eip1193,
+  };
+};
+
+// Browser extension or in-app wallet browser (window.ethereum)
+const createInjectedConnector = (
+  options: ConnectorOptions,
+): WalletConnector => ({
+  id: "injected",
+  name: "Browser Wallet",
+  description: "MetaMask, Rabby or a wallet app's built-in browser",
+  available: () => !!window.ethereum,
+  connect: async () => {
+    if (!window.ethereum) {
+      throw new Error(
+        "No Ethereum wallet detected. Please install MetaMask or another compatible wallet.",
+      );
+    }
+    await window.ethereum.request({ method: "eth_requestAccounts" });
+    const session = await sessionFromEip1193(
+      "injected",
+      window.ethereum,
+      options,
+    );
+    if (!session) throw new Error("The wallet did not share an account");
+    return session;
+  },
+  reconnect: async () =>
+    window.ethereum
+      ? sessionFromEip1193("injected", window.ethereum, options)
+      : null,
+  // Injected wallets cannot be disconnected from the page
+  disconnect: async () => {},
+});
+
+// Pair a wallet on another device by scanning a QR code
+const createWalletConnectConnector = (
+  projectId: string | undefined,
+  options: ConnectorOptions,
+): WalletConnector => {
+  let providerPromise: ReturnType<typeof EthereumProvider.init> | null = null;
+
+  // Loaded on demand so the WalletConnect bundle is only fetched when used
+  const getProvider = () => {
+    if (!providerPromise) {
+      providerPromise = import("@walletconnect/ethereum-provider").then(
+        ({ EthereumProvider }) =>
+          EthereumProvider.init({
+            projectId: projectId as string,
+            chains: [options.chainId],
+            rpcMap: { [options.chainId]: options.rpcUrl },
+            showQrModal: true,
+            metadata: {
+              name: "Circles Onboarding Helper",
+              description: "Invite people to Circles and add them to groups",
+              url: window.location.origin,
+              icons: [],
+            },
+          }),
+      );
+    }
+    return providerPromise;
+  };
+
+  return {
+    id: "walletconnect",
+    name: "WalletConnect",
+    description: "Scan a pairing QR code with a wallet on your phone",
+    available: () => !!projectId,
+    connect: async () => {
+      const provider = await getProvider();
+      await provider.connect();
+      const session = await sessionFromEip1193(
+        "walletconnect",
+        provider,
+        options,
+      );
+      if (!session) throw new Error("The wallet did not share an account");
+      return session;
+    },
+    reconnect: async () => {
+      if (!projectId) return null;
+      const provider = await getProvider();
+      return provider.session
+        ? sessionFromEip1193("walletconnect", provider, options)
+        : null;
+    },
+    disconnect: async () => {
+      if (providerPromise) {
+        await (await providerPromise).disconnect();
+      }
+    },
+  };
+};
+
+// Local private key for test deployments; never use with real funds
+const createBurnerConnector = (
+  enabled: boolean,
+  configuredKey: string | undefined,
+  { chainId, rpcUrl }: ConnectorOptions,
+): WalletConnector => {
+  const toSession = (privateKey: string): WalletSession => {
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const wallet = new ethers.Wallet(privateKey, provider);
+    return {
+      connectorId: "burner",
+      account: wallet.address,
+      chainId,
+      provider,
+      signer: wallet,
+      safeProvider: rpcUrl,
+      safeSigner: privateKey,
+    };
+  };
+
+  return {
+    id: "burner",
+    name: "Burner Wallet",
+    description: "Key stored in this browser, for testing only",
+    available: () => enabled,
+    connect: async () => {
+      let privateKey = configuredKey || localStorage.getItem(BURNER_KEY);
+      if (!privateKey) {
+        privateKey = ethers.Wallet.createRandom().privateKey;
+        localStorage.setItem(BURNER_KEY, privateKey);
+      }
+      return toSession(privateKey);
+    },
+    reconnect: async () => {
+      const privateKey = configuredKey || localStorage.getItem(BURNER_KEY);
+      return enabled && privateKey ? toSession(privateKey) : null;
+    },
+    disconnect: async () => {},
+  };
+};
+
+export const createWalletConnectors = (
+  options: ConnectorOptions,
+): WalletConnector[] => [
+  createInjectedConnector(options),
+  createWalletConnectConnector(
+    import.meta.env.VITE_WALLETCONNECT_PROJECT_ID,
+    options,
+  ),
+  createBurnerConnector(
+    import.meta.env.VITE_BURNER_WALLET === "true",
+    // Vite inlines VITE_* values into the bundle, so a fixed key is only read
+    // in dev builds; DEV is false in production and the key is dropped there
+    import.meta.env.DEV ? import.meta.env.VITE_BURNER_PRIVATE_KEY : undefined,
+    options,
+  ),
+];